@@ -1,15 +1,44 @@
 #!/usr/bin/env node
 // Torrent download helper - runs under Node.js to avoid Bun's libuv limitations
 import WebTorrent from "webtorrent";
-import { mkdirSync, existsSync, writeFileSync, readFileSync } from "fs";
+import { mkdirSync, existsSync, writeFileSync, readFileSync, renameSync, watchFile } from "fs";
+import { createServer } from "http";
+import { extname } from "path";
+import {
+  PROTOCOL_VERSION, VIDEO_TYPES, SUBTITLE_EXTENSIONS, MANAGER_FIELDS, encodeMessage, parseControl, applyMessage,
+} from "./protocol.mjs";
 
-const [,, magnet, downloadDir, stateFilePath] = process.argv;
+// The source is a magnet link or the path of a .torrent file
+const [,, source, downloadDir, stateFilePath, optionsJson] = process.argv;
 
-if (!magnet || !downloadDir) {
-  console.error(JSON.stringify({ type: "error", message: "Usage: download.mjs <magnet> <dir> [stateFile]" }));
+if (!source || !downloadDir) {
+  console.error(JSON.stringify({ type: "error", message: "Usage: download.mjs <magnet|file.torrent> <dir> [stateFile] [optionsJson]" }));
   process.exit(1);
 }
 
+// Settings passed down from the CLI config
+let options = {};
+try {
+  options = JSON.parse(optionsJson || "{}");
+} catch {}
+if (options.protocol !== undefined && options.protocol !== PROTOCOL_VERSION) {
+  process.stdout.write(encodeMessage({
+    type: "error",
+    message: `movizone speaks protocol v${options.protocol}, this helper v${PROTOCOL_VERSION}; reinstall movizone`,
+  }));
+  process.exit(1);
+}
+const peerTimeoutMs = (options.peerTimeoutSec || 30) * 1000;
+// Seed after completion until either target is reached (0 = no target; both 0 = don't seed)
+const seedRatio = options.seedRatio || 0;
+const seedTimeMs = (options.seedTimeMin || 0) * 60 * 1000;
+// A download that stops moving is re-announced after stallMs, then after twice
+// that, and so on; once the retries run out it ends as stalled (0 = never)
+const stallMs = (options.stallTimeoutMin || 0) * 60 * 1000;
+const stallRetries = options.stallRetries ?? 3;
+// Trackers get this long to answer before their results are reported
+const trackerReportMs = 60 * 1000;
+
 if (!existsSync(downloadDir)) {
   mkdirSync(downloadDir, { recursive: true });
 }
@@ -23,14 +52,15 @@ if (stateFilePath) {
 }
 
 // Current state tracked in memory, flushed to disk on every send()
+// Keep progress from a paused run visible until WebTorrent has re-verified the pieces on disk
 const state = {
   ...existingState,
   pid: process.pid,
-  magnet,
+  magnet: existingState.magnet ?? (source.startsWith("magnet:") ? source : undefined),
   status: "connecting",
-  progress: 0,
-  downloaded: 0,
-  total: 0,
+  progress: existingState.progress || 0,
+  downloaded: existingState.downloaded || 0,
+  total: existingState.total || 0,
   speed: 0,
   eta: 0,
   peers: 0,
@@ -38,10 +68,17 @@ const state = {
   error: null,
 };
 
+// Renamed into place like the manager's writes, so nobody reads it half-written
 function writeState() {
   if (!stateFilePath) return;
   try {
-    writeFileSync(stateFilePath, JSON.stringify(state) + "\n");
+    const onDisk = JSON.parse(readFileSync(stateFilePath, "utf-8"));
+    for (const field of MANAGER_FIELDS) state[field] = onDisk[field];
+  } catch {}
+  const tmp = `${stateFilePath}.${process.pid}.tmp`;
+  try {
+    writeFileSync(tmp, JSON.stringify(state) + "\n");
+    renameSync(tmp, stateFilePath);
   } catch {}
 }
 
@@ -50,59 +87,350 @@ writeState();
 
 const client = new WebTorrent();
 
-function send(obj) {
-  process.stdout.write(JSON.stringify(obj) + "\n");
-  // Mirror to state file
-  if (obj.type === "meta") {
-    state.total = obj.size;
-    state.status = "downloading";
-  } else if (obj.type === "progress") {
-    state.status = "downloading";
-    state.progress = obj.progress;
-    state.downloaded = obj.downloaded;
-    state.total = obj.total;
-    state.speed = obj.speed;
-    state.eta = obj.eta;
-    state.peers = obj.peers;
-  } else if (obj.type === "done") {
-    state.status = "done";
-    state.progress = 1;
-    state.filePath = obj.path;
-  } else if (obj.type === "error") {
-    state.status = "error";
-    state.error = obj.message;
-  } else if (obj.type === "timeout") {
-    state.status = "timeout";
-    state.error = "Could not connect to peers";
+// The CLI may exit while we keep downloading — don't die on a closed stdout pipe
+process.stdout.on("error", () => {});
+
+// Pause/cancel: the CLI asks through the control file (or kills us) and records
+// the new state itself, so exit without touching the state file
+let stopping = false;
+function stop() {
+  stopping = true;
+  client.destroy(() => process.exit(0));
+  setTimeout(() => process.exit(0), 1000).unref();
+}
+process.on("SIGTERM", stop);
+
+send({ type: "hello", version: PROTOCOL_VERSION, pid: process.pid });
+
+// Commands issued before we started were meant for an earlier helper
+const startedAt = Date.now();
+let controlWarning = null;
+
+// Limits and commands from the CLI's control file, re-read whenever it changes
+function applyControl() {
+  if (!options.controlFile || stopping) return;
+  let control;
+  try {
+    control = parseControl(readFileSync(options.controlFile, "utf-8"));
+  } catch (err) {
+    if (err.code === "ENOENT" || err.message === controlWarning) return;
+    controlWarning = err.message;
+    send({ type: "warning", message: err.message });
+    return;
+  }
+  if (control.command && control.command.at >= startedAt) {
+    send({ type: "stopped", reason: control.command.action });
+    return stop();
+  }
+  client.throttleDownload(control.downloadLimit);
+  client.throttleUpload(control.uploadLimit);
+  if (control.files && String(control.files) !== String(selected)) {
+    requestedFiles = control.files;
+    const torrent = client.torrents[0];
+    if (torrent?.ready) selectFiles(torrent, requestedFiles);
+  }
+  if (control.stream && !streamRequested) {
+    streamRequested = true;
+    const torrent = client.torrents[0];
+    if (torrent?.ready) startStream(torrent);
   }
+  state.speedLimit = control.speedLimit;
+  state.effectiveLimit = control.downloadLimit >= 0 ? control.downloadLimit : undefined;
   writeState();
 }
 
-client.add(magnet, { path: downloadDir }, (torrent) => {
-  send({
-    type: "meta",
-    name: torrent.name,
-    size: torrent.length,
+// --- Streaming: serve the main video over localhost while it downloads ---
+
+let streamRequested = false;
+/** { server, file, position, connections, lastRequest } once streaming started */
+let stream = null;
+
+/** Parse a single `Range: bytes=a-b` header; null for no/multi ranges, "invalid" when unsatisfiable */
+function parseRange(header, size) {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header || "");
+  if (!match || (!match[1] && !match[2])) return null;
+  let start = match[1] ? Number(match[1]) : size - Number(match[2]);
+  let end = match[1] && match[2] ? Number(match[2]) : size - 1;
+  start = Math.max(0, start);
+  end = Math.min(end, size - 1);
+  return start > end ? "invalid" : { start, end };
+}
+
+function startStream(torrent) {
+  if (stream) return;
+  const videos = torrent.files.filter((f) => extname(f.name).toLowerCase() in VIDEO_TYPES);
+  const file = (videos.length ? videos : torrent.files).reduce((a, b) => (b.length > a.length ? b : a));
+
+  // Fetch pieces in playback order, and the video before any extras
+  torrent.strategy = "sequential";
+  file.select(1);
+
+  const server = createServer((req, res) => {
+    stream.lastRequest = Date.now();
+    const range = parseRange(req.headers.range, file.length);
+    res.setHeader("Accept-Ranges", "bytes");
+    res.setHeader("Content-Type", VIDEO_TYPES[extname(file.name).toLowerCase()] || "application/octet-stream");
+
+    if (range === "invalid") {
+      res.writeHead(416, { "Content-Range": `bytes */${file.length}` });
+      return res.end();
+    }
+    const { start, end } = range || { start: 0, end: file.length - 1 };
+    if (range) {
+      res.statusCode = 206;
+      res.setHeader("Content-Range", `bytes ${start}-${end}/${file.length}`);
+    }
+    res.setHeader("Content-Length", end - start + 1);
+    if (req.method === "HEAD") return res.end();
+
+    stream.connections++;
+    stream.position = start;
+    const body = file.createReadStream({ start, end });
+    body.on("data", (chunk) => { stream.position += chunk.length; });
+    body.pipe(res);
+    res.on("close", () => {
+      stream.connections--;
+      stream.lastRequest = Date.now();
+      body.destroy();
+    });
   });
 
+  stream = { server, file, position: 0, connections: 0, lastRequest: Date.now() };
+  server.listen(0, "127.0.0.1", () => {
+    const url = `http://127.0.0.1:${server.address().port}/${encodeURIComponent(file.name)}`;
+    send({ type: "stream", url, file: file.name });
+  });
+}
+
+// --- File selection: skip samples, ads and artwork unless asked for ---
+
+/** File indices picked by the user, from the control file or a previous run */
+let requestedFiles = Array.isArray(existingState.files)
+  ? existingState.files.flatMap((f, i) => (f.selected ? [i] : []))
+  : null;
+let selected = [];
+
+/** Videos (minus samples) and their subtitles; everything if that leaves nothing */
+function defaultSelection(torrent) {
+  const largest = Math.max(...torrent.files.map((f) => f.length));
+  const wanted = torrent.files.flatMap((f, i) => {
+    const ext = extname(f.name).toLowerCase();
+    const isSample = /\bsample\b/i.test(f.path) && f.length < largest;
+    return (ext in VIDEO_TYPES && !isSample) || SUBTITLE_EXTENSIONS.includes(ext) ? [i] : [];
+  });
+  return wanted.length ? wanted : torrent.files.map((_, i) => i);
+}
+
+function selectFiles(torrent, indices) {
+  const valid = indices.filter((i) => i >= 0 && i < torrent.files.length);
+  selected = valid.length ? valid : defaultSelection(torrent);
+  torrent.files.forEach((f, i) => (selected.includes(i) ? f.select() : f.deselect()));
+  if (stream) stream.file.select(1); // Deselecting may have dropped the stream's priority
+  sendFiles(torrent, selected);
+}
+
+function sendFiles(torrent, picked) {
+  const files = torrent.files.map((f, i) => ({ name: f.path, length: f.length, selected: picked.includes(i) }));
+  const size = picked.reduce((sum, i) => sum + torrent.files[i].length, 0);
+  send({ type: "meta", name: torrent.name, size, files });
+}
+
+/**
+ * The user wants to pick files first: fetch nothing, offer the default
+ * selection, and fall back to it if no choice arrives in time.
+ */
+function awaitSelection(torrent) {
+  sendFiles(torrent, defaultSelection(torrent));
+  setTimeout(() => {
+    if (!selected.length) selectFiles(torrent, []);
+  }, 5 * 60 * 1000).unref();
+}
+
+function selectedLength(torrent) {
+  return selected.reduce((sum, i) => sum + torrent.files[i].length, 0);
+}
+
+function selectedDownloaded(torrent) {
+  return selected.reduce((sum, i) => sum + torrent.files[i].downloaded, 0);
+}
+
+/** Bytes already on disk from the player's read position onwards */
+function bufferAhead(torrent) {
+  if (!stream) return undefined;
+  const { file, position } = stream;
+  const from = file.offset + position;
+  const fileEnd = file.offset + file.length;
+  let piece = Math.floor(from / torrent.pieceLength);
+  while (piece * torrent.pieceLength < fileEnd && torrent.bitfield.get(piece)) piece++;
+  return Math.max(0, Math.min(piece * torrent.pieceLength, fileEnd) - from);
+}
+
+applyControl();
+if (options.controlFile) watchFile(options.controlFile, { interval: 1000 }, applyControl);
+
+/** Tell the CLI, and mirror into the state file for CLIs started later */
+function send(msg) {
+  if (stopping) return;
+  process.stdout.write(encodeMessage(msg));
+  applyMessage(state, msg);
+  writeState();
+}
+
+// Keyed by announce URL without a trailing slash, the way bittorrent-tracker reports it
+const trackerResults = new Map();
+let trackersWatchedAt = Date.now();
+let trackersReported = false;
+const trackerKey = (url) => url.replace(/\/$/, "");
+
+/** Note how each tracker answers; UDP failures name their tracker, others only time out */
+function watchTrackers(torrent) {
+  trackersWatchedAt = Date.now();
+  let watched = null;
+  // Discovery starts once the client is listening and restarts its tracker client on port changes
+  const attach = setInterval(() => {
+    const tracker = torrent.discovery?.tracker;
+    if (!tracker || tracker === watched) return;
+    watched = tracker;
+    tracker.on("update", (data) => {
+      const peers = (data.complete || 0) + (data.incomplete || 0);
+      trackerResults.set(data.announce, { url: data.announce, ok: true, peers });
+    });
+  }, 200);
+  torrent.on("warning", (err) => {
+    const url = (torrent.announce ?? []).map(trackerKey).find((u) => String(err.message).includes(u));
+    if (!url || trackerResults.get(url)?.ok) return;
+    trackerResults.set(url, { url, ok: false, error: err.message.replace(` (${url})`, "") });
+  });
+  setTimeout(() => {
+    clearInterval(attach);
+    reportTrackers();
+  }, trackerReportMs).unref();
+}
+
+/**
+ * Send the tracker results once, early if the helper is about to exit. Only a
+ * tracker that stayed silent for the whole window counts as timed out; an
+ * early report leaves the silent ones out
+ */
+function reportTrackers() {
+  const urls = added.announce ?? [];
+  if (trackersReported || !urls.length) return;
+  trackersReported = true;
+  const waitedFully = Date.now() - trackersWatchedAt >= trackerReportMs;
+  const results = urls.flatMap((url) => {
+    const result = trackerResults.get(trackerKey(url));
+    if (result) return [{ ...result, url }];
+    return waitedFully ? [{ url, ok: false, error: "No response", timedOut: true }] : [];
+  });
+  if (results.length) send({ type: "trackers", at: Date.now(), results });
+}
+
+/** Ask the trackers and the DHT for fresh peers */
+function reannounce(torrent) {
+  const { tracker, dht } = torrent.discovery ?? {};
+  try {
+    tracker?.update();
+    dht?.lookup(torrent.infoHash);
+  } catch {}
+}
+
+// Start with nothing selected, so only the files we pick are fetched
+const added = client.add(source, { path: downloadDir, deselect: true }, (torrent) => {
+  if (options.pickFiles && !requestedFiles) awaitSelection(torrent);
+  else selectFiles(torrent, requestedFiles ?? []);
+
+  let lastDownloaded = -1;
+  let movedAt = Date.now();
+  let checkAt = Date.now();
+  let attempt = 0;
+
   const interval = setInterval(() => {
+    // Progress counts the selected files only
+    const total = selectedLength(torrent);
+    const downloaded = Math.min(selectedDownloaded(torrent), total);
+    const speed = torrent.downloadSpeed;
     send({
       type: "progress",
-      progress: torrent.progress,
-      downloaded: torrent.downloaded,
-      total: torrent.length,
-      speed: torrent.downloadSpeed,
-      eta: torrent.timeRemaining,
+      progress: total ? downloaded / total : 0,
+      downloaded,
+      total,
+      speed,
+      eta: speed ? ((total - downloaded) / speed) * 1000 : null,
       peers: torrent.numPeers,
+      bufferAhead: bufferAhead(torrent),
     });
+    if (selected.length && selected.every((i) => torrent.files[i].done)) return complete();
+
+    // Nothing selected yet (choosing files) isn't a stall
+    const now = Date.now();
+    if (downloaded > lastDownloaded || !selected.length) {
+      lastDownloaded = downloaded;
+      movedAt = checkAt = now;
+      attempt = 0;
+    } else if (stallMs && now - checkAt >= stallMs * 2 ** attempt) {
+      if (attempt >= stallRetries) {
+        clearInterval(interval);
+        reportTrackers();
+        send({ type: "stalled", minutes: Math.round((now - movedAt) / 60000) });
+        client.destroy();
+        process.exit(0);
+      }
+      attempt++;
+      checkAt = now;
+      send({ type: "retry", attempt, of: stallRetries });
+      reannounce(torrent);
+    }
   }, 500);
 
-  torrent.on("done", () => {
-    clearInterval(interval);
-    send({ type: "done", path: `${downloadDir}/${torrent.name}` });
+  if (streamRequested) startStream(torrent);
+
+  const path = `${downloadDir}/${torrent.name}`;
+  const exit = () => {
     client.destroy();
     process.exit(0);
-  });
+  };
+  const finish = () => {
+    reportTrackers();
+    send({ type: "done", path });
+    if (!stream) return exit();
+
+    // Someone is watching: keep serving until the player has been gone for a while
+    const idleCheck = setInterval(() => {
+      if (stream.connections === 0 && Date.now() - stream.lastRequest > 5 * 60 * 1000) {
+        clearInterval(idleCheck);
+        send({ type: "stream", url: null });
+        exit();
+      }
+    }, 30 * 1000);
+  };
+
+  // The torrent's own "done" only fires once every file is in, including deselected ones
+  let completed = false;
+  const complete = () => {
+    if (completed) return;
+    completed = true;
+    clearInterval(interval);
+    if (!seedRatio && !seedTimeMs) return finish();
+
+    send({ type: "seeding", path });
+    const seedStart = Date.now();
+    const seedInterval = setInterval(() => {
+      send({
+        type: "seed",
+        uploaded: torrent.uploaded,
+        uploadSpeed: torrent.uploadSpeed,
+        ratio: torrent.ratio,
+        peers: torrent.numPeers,
+      });
+      const ratioMet = seedRatio > 0 && torrent.ratio >= seedRatio;
+      const timeUp = seedTimeMs > 0 && Date.now() - seedStart >= seedTimeMs;
+      if (ratioMet || timeUp) {
+        clearInterval(seedInterval);
+        finish();
+      }
+    }, 1000);
+  };
+  torrent.on("done", complete);
 
   torrent.on("error", (err) => {
     clearInterval(interval);
@@ -111,6 +439,7 @@ client.add(magnet, { path: downloadDir }, (torrent) => {
     process.exit(1);
   });
 });
+watchTrackers(added);
 
 client.on("error", (err) => {
   send({ type: "error", message: err.message });
@@ -118,11 +447,12 @@ client.on("error", (err) => {
   process.exit(1);
 });
 
-// Timeout if no metadata after 30s
+// Timeout if no metadata in time
 setTimeout(() => {
   if (client.torrents.length === 0 || !client.torrents[0].ready) {
+    reportTrackers();
     send({ type: "timeout" });
     client.destroy();
     process.exit(0);
   }
-}, 30000);
+}, peerTimeoutMs);
@@ -1,4 +1,8 @@
-import { test, expect, describe } from "bun:test";
+import { test, expect, describe, spyOn } from "bun:test";
+import { mkdtempSync, mkdirSync, writeFileSync, readdirSync, existsSync, rmSync } from "node:fs";
+import { tmpdir, homedir } from "node:os";
+import { join } from "node:path";
+import { createHash } from "node:crypto";
 import {
   formatBytes,
   formatSpeed,
@@ -10,10 +14,51 @@ import {
   extractYear,
   generateTypoCorrections,
   DownloadManager,
+  splitBandwidth,
+  renderLibraryPath,
+  subtitleLanguageCode,
+  buildNfo,
   parseSubtitleRows,
   scoreSubtitle,
+  pickSubtitles,
+  detectSubtitleEncoding,
+  parseSrt,
+  retimeCues,
+  formatSubtitles,
+  fixSubtitle,
+  parseCliArgs,
+  flagString,
+  pickTorrent,
+  createYtsProvider,
+  registerProvider,
+  resolveProvider,
+  orderMirrors,
+  backoffDelay,
+  formatAgo,
+  isFresh,
+  rankMovies,
+  settingFlag,
+  settingEnvVar,
+  parseSettingValue,
+  applySettingOverrides,
+  coerceSettingValue,
+  DEFAULT_CONFIG,
+  Watchlist,
+  Library,
+  parseReleaseName,
+  matchMovie,
+  DownloadHistory,
+  historyStats,
+  parseTrackerList,
+  rankTrackers,
+  TrackerStore,
+  parseMagnet,
+  parseTorrentFile,
+  clipboardCommands,
+  osc52Sequence,
 } from "./index.ts";
-import type { SubtitleEntry } from "./index.ts";
+import type { SubtitleEntry, HistoryEntry, TrackerHealth } from "./index.ts";
+import { PROTOCOL_VERSION, parseMessage, encodeMessage, parseControl, encodeControl, applyMessage } from "./protocol.mjs";
 
 // --- formatBytes ---
 
@@ -104,6 +149,11 @@ describe("buildMagnet", () => {
     const magnet = buildMagnet("hash", "Movie: The Sequel (2024)");
     expect(magnet).toContain("dn=Movie%3A%20The%20Sequel%20(2024)");
   });
+
+  test("adds the given trackers in order", () => {
+    const magnet = buildMagnet("hash", "Movie", ["udp://a.example:1337/announce", "https://b.example/announce"]);
+    expect(magnet).toEndWith("&tr=udp%3A%2F%2Fa.example%3A1337%2Fannounce&tr=https%3A%2F%2Fb.example%2Fannounce");
+  });
 });
 
 // --- levenshtein ---
@@ -210,10 +260,10 @@ describe("DownloadManager", () => {
     expect(active.length).toBeLessThanOrEqual(downloads.length);
   });
 
-  test("cancelDownload on nonexistent id is a no-op", () => {
+  test("cancelDownload on nonexistent id is a no-op", async () => {
     const dm = new DownloadManager();
     // Should not throw
-    dm.cancelDownload("999");
+    await dm.cancelDownload("999");
     expect(dm.getDownloads()).toEqual([]);
   });
 
@@ -222,6 +272,399 @@ describe("DownloadManager", () => {
     dm.clearCompleted();
     expect(dm.getDownloads()).toEqual([]);
   });
+
+  describe("queue", () => {
+    // maxConcurrent 0 keeps everything queued, so no helper process is spawned
+    const queuedManager = () =>
+      new DownloadManager({ stateDir: mkdtempSync(join(tmpdir(), "movizone-test-")), maxConcurrent: 0 });
+
+    test("queues downloads in the order they were added", () => {
+      const dm = queuedManager();
+      const a = dm.startDownload("magnet:?xt=a", "A");
+      const b = dm.startDownload("magnet:?xt=b", "B");
+      expect(dm.getActive()).toEqual([]);
+      expect(dm.getQueued().map((d) => d.id)).toEqual([a, b]);
+      expect(dm.getQueued()[0]!.status).toBe("queued");
+    });
+
+    test("moveInQueue reorders by priority", () => {
+      const dm = queuedManager();
+      const a = dm.startDownload("magnet:?xt=a", "A");
+      const b = dm.startDownload("magnet:?xt=b", "B");
+      const c = dm.startDownload("magnet:?xt=c", "C");
+      dm.moveInQueue(c, "top");
+      expect(dm.getQueued().map((d) => d.id)).toEqual([c, a, b]);
+      dm.moveInQueue(c, "down");
+      expect(dm.getQueued().map((d) => d.id)).toEqual([a, c, b]);
+      dm.moveInQueue(a, "bottom");
+      expect(dm.getQueued().map((d) => d.id)).toEqual([c, b, a]);
+      dm.moveInQueue(c, "up"); // already first
+      expect(dm.getQueued().map((d) => d.id)).toEqual([c, b, a]);
+    });
+
+    test("queued downloads survive a reload", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "movizone-test-"));
+      const dm = new DownloadManager({ stateDir: dir, maxConcurrent: 0 });
+      const a = dm.startDownload("magnet:?xt=a", "A");
+      const b = dm.startDownload("magnet:?xt=b", "B");
+      dm.moveInQueue(b, "top");
+
+      const reloaded = new DownloadManager({ stateDir: dir, maxConcurrent: 0 });
+      await reloaded.loadDownloads();
+      expect(reloaded.getQueued().map((d) => d.id)).toEqual([b, a]);
+    });
+
+    test("leaves a queued download another process has started", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "movizone-test-"));
+      const cron = new DownloadManager({ stateDir: dir, maxConcurrent: 0 });
+      const id = cron.startDownload("magnet:?xt=a", "A");
+      const options = { stateDir: dir, maxConcurrent: 0 };
+      const tui = new DownloadManager(options);
+      await tui.loadDownloads();
+
+      // The other process's helper is running; its pid only has to be alive
+      const started = { ...cron.getQueued()[0]!, status: "connecting", pid: process.ppid };
+      writeFileSync(join(dir, `${id}.json`), JSON.stringify(started));
+      options.maxConcurrent = 1;
+      tui.processQueue();
+      expect(tui.getQueued()).toEqual([]);
+      expect(tui.getActive()).toMatchObject([{ id, status: "connecting", pid: process.ppid }]);
+    });
+
+    test("resuming a paused download puts it at the front of the queue", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "movizone-test-"));
+      writeFileSync(join(dir, "1-1.json"), JSON.stringify({
+        id: "1-1", magnet: "magnet:?xt=p", movieTitle: "Paused", quality: "1080p", status: "paused",
+        progress: 0.4, downloaded: 400, total: 1000, speed: 0, eta: 0, peers: 0, downloadDir: "/tmp/movies",
+      }));
+      const dm = new DownloadManager({ stateDir: dir, maxConcurrent: 0 });
+      await dm.loadDownloads();
+      const a = dm.startDownload("magnet:?xt=a", "A");
+
+      expect(dm.getPaused().map((d) => d.id)).toEqual(["1-1"]);
+      dm.resumeDownload("1-1");
+      expect(dm.getPaused()).toEqual([]);
+      expect(dm.getQueued().map((d) => d.id)).toEqual(["1-1", a]);
+      expect(dm.getQueued()[0]!.progress).toBe(0.4);
+    });
+
+    test("file selection sets the total and survives a reload", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "movizone-test-"));
+      writeFileSync(join(dir, "1-1.json"), JSON.stringify({
+        id: "1-1", magnet: "magnet:?xt=p", movieTitle: "Paused", quality: "1080p", status: "paused",
+        progress: 0, downloaded: 0, total: 900, speed: 0, eta: 0, peers: 0, pickFiles: true,
+        files: [
+          { name: "Movie/movie.mkv", length: 800, selected: true },
+          { name: "Movie/sample.mkv", length: 50, selected: false },
+          { name: "Movie/movie.srt", length: 50, selected: true },
+        ],
+      }));
+      const dm = new DownloadManager({ stateDir: dir, maxConcurrent: 0 });
+      await dm.loadDownloads();
+      dm.setFileSelection("1-1", [0]);
+      expect(dm.getPaused()[0]!.total).toBe(800);
+      expect(dm.getPaused()[0]!.pickFiles).toBeUndefined();
+
+      const reloaded = new DownloadManager({ stateDir: dir, maxConcurrent: 0 });
+      await reloaded.loadDownloads();
+      expect(reloaded.getPaused()[0]!.files!.map((f) => f.selected)).toEqual([true, false, false]);
+    });
+
+    test("pausing only applies to running downloads", async () => {
+      const dm = queuedManager();
+      const a = dm.startDownload("magnet:?xt=a", "A");
+      await dm.pauseDownload(a);
+      expect(dm.getQueued().map((d) => d.id)).toEqual([a]);
+    });
+
+    describe("interrupted downloads", () => {
+      // A helper that died with the machine: its state file still says "downloading"
+      const crashedDir = (extra: object = {}) => {
+        const dir = mkdtempSync(join(tmpdir(), "movizone-test-"));
+        const deadPid = Bun.spawnSync(["true"]).pid;
+        writeFileSync(join(dir, "1-1.json"), JSON.stringify({
+          id: "1-1", pid: deadPid, magnet: "magnet:?xt=c", movieTitle: "Crashed", quality: "1080p",
+          status: "downloading", progress: 0.6, downloaded: 600, total: 1000, speed: 5, eta: 10, peers: 3,
+          ...extra,
+        }));
+        return dir;
+      };
+
+      test("are kept resumable instead of failing", async () => {
+        const dm = new DownloadManager({ stateDir: crashedDir(), maxConcurrent: 0, autoResume: false });
+        await dm.loadDownloads();
+        const [d] = dm.getInterrupted();
+        expect(d!.progress).toBe(0.6);
+        expect(d!.pid).toBeUndefined();
+        expect(d!.speed).toBe(0);
+
+        dm.resumeInterrupted();
+        expect(dm.getInterrupted()).toEqual([]);
+        expect(dm.getQueued().map((q) => q.id)).toEqual(["1-1"]);
+      });
+
+      test("are requeued on load with autoResume", async () => {
+        const dm = new DownloadManager({ stateDir: crashedDir(), maxConcurrent: 0, autoResume: true });
+        await dm.loadDownloads();
+        expect(dm.getInterrupted()).toEqual([]);
+        expect(dm.getQueued().map((q) => q.id)).toEqual(["1-1"]);
+      });
+
+      test("that were seeding count as done", async () => {
+        const dm = new DownloadManager({ stateDir: crashedDir({ status: "seeding", progress: 1 }), maxConcurrent: 0 });
+        await dm.loadDownloads();
+        expect(dm.getSeeding()).toEqual([]);
+        expect(dm.getDownloads()[0]!.status).toBe("done");
+        expect(dm.getDownloads()[0]!.error).toBeUndefined();
+      });
+
+      test("fail when there is no magnet to resume from", async () => {
+        const dm = new DownloadManager({ stateDir: crashedDir({ magnet: undefined }), maxConcurrent: 0 });
+        await dm.loadDownloads();
+        expect(dm.getInterrupted()).toEqual([]);
+        expect(dm.getDownloads()[0]!.status).toBe("error");
+      });
+    });
+
+    test("waitForStream gives up on a failed download", async () => {
+      const dm = queuedManager();
+      const a = dm.startDownload("magnet:?xt=a", "A");
+      await dm.cancelDownload(a);
+      expect(await dm.waitForStream(a, 1000)).toBeUndefined();
+    });
+
+    test("cancelling a queued download takes it out of the queue", async () => {
+      const dm = queuedManager();
+      const a = dm.startDownload("magnet:?xt=a", "A");
+      await dm.cancelDownload(a);
+      expect(dm.getQueued()).toEqual([]);
+      expect(dm.getDownloads()[0]!.status).toBe("error");
+    });
+  });
+
+  describe("preflight", () => {
+    const torrent = (quality: string, size_bytes: number) => ({
+      url: "", hash: "ABC123", quality, type: "bluray", seeds: 10, peers: 1, size: "", size_bytes,
+      video_codec: "x264", bit_depth: "8", audio_channels: "2.0",
+    });
+    const setup = () => {
+      const downloadDir = mkdtempSync(join(tmpdir(), "movizone-test-"));
+      const stateDir = join(downloadDir, ".downloads");
+      return { downloadDir, dm: new DownloadManager({ stateDir, downloadDir, maxConcurrent: 0 }) };
+    };
+
+    test("finds a download of the same torrent by info hash", async () => {
+      const { dm } = setup();
+      const id = dm.startDownload("magnet:?xt=urn:btih:abc123&dn=Inception", "Inception");
+      const check = await dm.preflight("magnet:?xt=urn:btih:ABC123&dn=Other", "Inception", torrent("1080p", 100));
+      expect(check.duplicate?.id).toBe(id);
+      expect(check.existingFile).toBeUndefined();
+      expect((await dm.preflight("magnet:?xt=urn:btih:def456", "Inception")).duplicate).toBeUndefined();
+    });
+
+    test("finds the movie already on disk", async () => {
+      const { dm, downloadDir } = setup();
+      mkdirSync(join(downloadDir, "Inception (2010) [1080p] [YTS.MX]"));
+      writeFileSync(join(downloadDir, "Inception (2010) [1080p] [YTS.MX]", "Inception.2010.1080p.mp4"), "video");
+      const check = await dm.preflight("magnet:?xt=urn:btih:abc123", "Inception", torrent("1080p", 100));
+      expect(check.existingFile).toBe(join(downloadDir, "Inception (2010) [1080p] [YTS.MX]", "Inception.2010.1080p.mp4"));
+      expect((await dm.preflight("magnet:?xt=urn:btih:abc123", "Inception", torrent("720p", 100))).existingFile).toBeUndefined();
+    });
+
+    test("counts what unfinished downloads still need against free space", async () => {
+      const { dm } = setup();
+      dm.startDownload("magnet:?xt=urn:btih:111", "A", torrent("1080p", 300));
+      const check = await dm.preflight("magnet:?xt=urn:btih:222", "B", torrent("720p", 200));
+      expect(check.neededBytes).toBe(500);
+      expect(check.freeBytes).toBeGreaterThan(0);
+    });
+  });
+});
+
+// --- Library organizer ---
+
+describe("renderLibraryPath", () => {
+  const template = "Movies/{title} ({year})/{title} ({year}) [{quality}]";
+
+  test("fills in the default template", () => {
+    expect(renderLibraryPath(template, { title: "Inception", year: 2010, quality: "1080p" }))
+      .toBe("Movies/Inception (2010)/Inception (2010) [1080p]");
+  });
+
+  test("drops brackets left empty by missing values", () => {
+    expect(renderLibraryPath(template, { title: "Inception", quality: "unknown" }))
+      .toBe("Movies/Inception/Inception");
+  });
+
+  test("strips characters media servers and SMB shares reject", () => {
+    expect(renderLibraryPath("{title}", { title: "Mission: Impossible / Fallout?" }))
+      .toBe("Mission Impossible Fallout");
+  });
+
+  test("keeps absolute templates absolute", () => {
+    expect(renderLibraryPath("/mnt/nas/{imdb}", { title: "x", imdb: "tt1375666" })).toBe("/mnt/nas/tt1375666");
+  });
+});
+
+describe("subtitleLanguageCode", () => {
+  test("maps subtitle site language names to file suffixes", () => {
+    expect(subtitleLanguageCode("English")).toBe("en");
+    expect(subtitleLanguageCode("Brazilian Portuguese")).toBe("pt-BR");
+    expect(subtitleLanguageCode("Farsi/Persian")).toBe("fa");
+    expect(subtitleLanguageCode("Klingon")).toBeUndefined();
+  });
+});
+
+describe("organizing finished downloads", () => {
+  test("moves the video and subtitles into the library and removes junk", async () => {
+    const base = mkdtempSync(join(tmpdir(), "movizone-test-"));
+    const root = join(base, "Inception.2010.1080p.BluRay");
+    mkdirSync(join(root, "Subs"), { recursive: true });
+    writeFileSync(join(root, "Inception.2010.1080p.mp4"), "x".repeat(1000));
+    writeFileSync(join(root, "Inception-sample.mp4"), "x".repeat(10));
+    writeFileSync(join(root, "WWW.YTS.MX.txt"), "ad");
+    writeFileSync(join(root, "Subs", "2_English.srt"), "sub");
+    writeFileSync(join(base, "Inception.1080p.Arabic.srt"), "sub");
+
+    const stateDir = join(base, ".downloads");
+    mkdirSync(stateDir);
+    writeFileSync(join(stateDir, "1-1.json"), JSON.stringify({
+      id: "1-1", movieTitle: "Inception", quality: "1080p", status: "done", year: 2010,
+      progress: 1, downloaded: 1010, total: 1010, speed: 0, eta: 0, peers: 0,
+      filePath: root, downloadDir: base,
+    }));
+
+    const dm = new DownloadManager({ stateDir, maxConcurrent: 0, organize: true });
+    await dm.loadDownloads();
+
+    const folder = join(base, "Movies", "Inception (2010)");
+    const [state] = dm.getDownloads();
+    expect(state!.filePath).toBe(join(folder, "Inception (2010) [1080p].mp4"));
+    expect(state!.organizeError).toBeUndefined();
+    expect(readdirSync(folder).sort()).toEqual([
+      "Inception (2010) [1080p].ar.srt",
+      "Inception (2010) [1080p].en.srt",
+      "Inception (2010) [1080p].mp4",
+    ]);
+    expect(existsSync(root)).toBe(false);
+  });
+
+  test("leaves a download another live process is organizing, then picks up its result", async () => {
+    const base = mkdtempSync(join(tmpdir(), "movizone-test-"));
+    const root = join(base, "Zootopia.2016.720p");
+    mkdirSync(root);
+    writeFileSync(join(root, "Zootopia.2016.720p.mp4"), "x".repeat(1000));
+    const stateDir = join(base, ".downloads");
+    mkdirSync(stateDir);
+    writeFileSync(join(stateDir, "1-1.json"), JSON.stringify({
+      id: "1-1", movieTitle: "Zootopia", quality: "720p", status: "done", year: 2016,
+      progress: 1, downloaded: 1000, total: 1000, speed: 0, eta: 0, peers: 0,
+      filePath: root, downloadDir: base,
+    }));
+    writeFileSync(join(stateDir, "1-1.lock"), String(process.ppid));
+
+    const tui = new DownloadManager({ stateDir, maxConcurrent: 0, organize: true });
+    await tui.loadDownloads();
+    expect(tui.getDownloads()[0]!.organized).toBeUndefined();
+    expect(existsSync(root)).toBe(true);
+
+    rmSync(join(stateDir, "1-1.lock"));
+    const cron = new DownloadManager({ stateDir, maxConcurrent: 0, organize: true });
+    await cron.loadDownloads();
+    await tui.refreshOrphaned();
+    await tui.finishDownloads();
+    const [state] = tui.getDownloads();
+    expect(state!.organized).toBe(true);
+    expect(state!.organizeError).toBeUndefined();
+    expect(state!.filePath).toBe(join(base, "Movies", "Zootopia (2016)", "Zootopia (2016) [720p].mp4"));
+    expect(existsSync(join(stateDir, "1-1.lock"))).toBe(false);
+  });
+});
+
+// --- buildNfo ---
+
+describe("buildNfo", () => {
+  const movie = {
+    id: 1, title: "Tom & Jerry", year: 2021, rating: 5.2, title_long: "Tom & Jerry (2021)", runtime: 101,
+    genres: ["Animation", "Comedy"], summary: "A <cat> chases a mouse.", language: "en",
+    imdb_code: "tt1361336", yt_trailer_code: "abc", small_cover_image: "", medium_cover_image: "",
+    large_cover_image: "https://img.test/large.jpg", torrents: [],
+  };
+
+  test("writes Kodi's movie fields with escaped text", () => {
+    const nfo = buildNfo(movie);
+    expect(nfo).toStartWith('<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<movie>\n');
+    expect(nfo).toContain("  <title>Tom &amp; Jerry</title>\n  <year>2021</year>\n");
+    expect(nfo).toContain('<rating name="imdb" max="10" default="true"><value>5.2</value></rating>');
+    expect(nfo).toContain("  <plot>A &lt;cat&gt; chases a mouse.</plot>\n");
+    expect(nfo).toContain("  <genre>Animation</genre>\n  <genre>Comedy</genre>\n");
+    expect(nfo).toContain('  <uniqueid type="imdb" default="true">tt1361336</uniqueid>\n');
+    expect(nfo).toContain("videoid=abc</trailer>");
+    expect(nfo).toContain('  <thumb aspect="poster">https://img.test/large.jpg</thumb>\n');
+    expect(nfo).toEndWith("</movie>\n");
+  });
+
+  test("leaves out fields the catalog doesn't have", () => {
+    const nfo = buildNfo({ ...movie, rating: 0, runtime: 0, imdb_code: "", yt_trailer_code: "", large_cover_image: "" });
+    expect(nfo).not.toContain("<ratings>");
+    expect(nfo).not.toContain("<runtime>");
+    expect(nfo).not.toContain("<uniqueid");
+    expect(nfo).not.toContain("<trailer>");
+    expect(nfo).not.toContain("<thumb");
+    expect(nfo).not.toContain("<fanart>");
+  });
+
+  test("prefers the full description and adds fanart when known", () => {
+    const nfo = buildNfo({ ...movie, description_full: "Longer.", background_image: "https://img.test/bg.jpg" });
+    expect(nfo).toContain("<plot>Longer.</plot>");
+    expect(nfo).toContain("  <fanart>\n    <thumb>https://img.test/bg.jpg</thumb>\n  </fanart>\n");
+  });
+
+  test("is written next to a finished movie loose in the download folder", async () => {
+    const base = mkdtempSync(join(tmpdir(), "movizone-test-"));
+    writeFileSync(join(base, "Tom.and.Jerry.2021.720p.mp4"), "video");
+    const stateDir = join(base, ".downloads");
+    mkdirSync(stateDir);
+    writeFileSync(join(stateDir, "1-1.json"), JSON.stringify({
+      id: "1-1", movieTitle: "Tom & Jerry", quality: "720p", status: "done",
+      progress: 1, downloaded: 5, total: 5, speed: 0, eta: 0, peers: 0,
+      filePath: join(base, "Tom.and.Jerry.2021.720p.mp4"), downloadDir: base,
+      movie: { ...movie, large_cover_image: "" },
+    }));
+
+    const dm = new DownloadManager({ stateDir, maxConcurrent: 0, organize: false, writeNfo: true });
+    await dm.loadDownloads();
+
+    const nfo = join(base, "Tom.and.Jerry.2021.720p.nfo");
+    expect(existsSync(nfo)).toBe(true);
+    expect(await Bun.file(nfo).text()).toBe(buildNfo({ ...movie, large_cover_image: "" }));
+    expect(dm.getDownloads()[0]!.nfoError).toBeUndefined();
+  });
+});
+
+// --- splitBandwidth ---
+
+describe("splitBandwidth", () => {
+  test("leaves per-download caps alone without a global limit", () => {
+    expect(splitBandwidth(0, [0, 200])).toEqual([0, 200]);
+  });
+
+  test("shares the global limit equally", () => {
+    expect(splitBandwidth(1000, [0, 0])).toEqual([500, 500]);
+  });
+
+  test("gives the unused share of capped downloads to the others", () => {
+    expect(splitBandwidth(1000, [100, 0, 0])).toEqual([100, 450, 450]);
+  });
+
+  test("never exceeds a download's own cap", () => {
+    expect(splitBandwidth(1000, [800, 900])).toEqual([500, 500]);
+    expect(splitBandwidth(100, [800])).toEqual([100]);
+  });
+
+  test("returns nothing when nothing is running", () => {
+    expect(splitBandwidth(1000, [])).toEqual([]);
+  });
 });
 
 // --- parseSubtitleRows ---
@@ -328,3 +771,933 @@ describe("scoreSubtitle", () => {
     expect(scoreSubtitle(entry, baseTorrent)).toBe(1 + 30 + 20 + 15);
   });
 });
+
+// --- pickSubtitles ---
+
+describe("pickSubtitles", () => {
+  const torrent = { quality: "1080p", type: "bluray" };
+  const entries: SubtitleEntry[] = [
+    { language: "English", release: "Inception 720p WEB", rating: 9, downloadPath: "/en-720" },
+    { language: "English", release: "Inception 1080p BluRay YIFY", rating: 2, downloadPath: "/en-1080" },
+    { language: "Brazilian Portuguese", release: "Inception 1080p", rating: 1, downloadPath: "/pt-br" },
+  ];
+
+  test("picks the best-scoring subtitle per language, by name or code", () => {
+    const picks = pickSubtitles(entries, ["english", "pt-BR"], torrent);
+    expect(picks.map((p) => p.entry?.downloadPath)).toEqual(["/en-1080", "/pt-br"]);
+  });
+
+  test("leaves languages the site doesn't have without an entry", () => {
+    expect(pickSubtitles(entries, ["Arabic"], torrent)).toEqual([{ language: "Arabic", entry: undefined }]);
+  });
+});
+
+describe("subtitles for finished downloads", () => {
+  test("a finished download without an IMDb id is marked as missing its subtitles", async () => {
+    const base = mkdtempSync(join(tmpdir(), "movizone-test-"));
+    const stateDir = join(base, ".downloads");
+    mkdirSync(stateDir);
+    writeFileSync(join(base, "Home.Video.mp4"), "x");
+    writeFileSync(join(stateDir, "1-1.json"), JSON.stringify({
+      id: "1-1", movieTitle: "Home Video", quality: "unknown", status: "done",
+      progress: 1, downloaded: 1, total: 1, speed: 0, eta: 0, peers: 0,
+      filePath: join(base, "Home.Video.mp4"), downloadDir: base,
+    }));
+
+    const dm = new DownloadManager({ stateDir, maxConcurrent: 0, organize: false, subtitles: ["English"] });
+    await dm.loadDownloads();
+
+    const state = dm.getDownloads()[0]!;
+    expect(state.subtitles).toEqual({ fetched: [], missing: ["English"] });
+    expect(state.subtitleError).toBe("No IMDb id to look subtitles up by");
+    expect((await Bun.file(join(stateDir, "1-1.json")).json()).subtitles).toEqual(state.subtitles);
+  });
+
+  test("tries again later when the sites can't be reached, or right away when asked", async () => {
+    const base = mkdtempSync(join(tmpdir(), "movizone-test-"));
+    const stateDir = join(base, ".downloads");
+    mkdirSync(stateDir);
+    writeFileSync(join(base, "Gone.mkv"), "x");
+    writeFileSync(join(stateDir, "1-1.json"), JSON.stringify({
+      id: "1-1", movieTitle: "Gone", quality: "720p", status: "done", imdbCode: "tt0000001",
+      progress: 1, downloaded: 1, total: 1, speed: 0, eta: 0, peers: 0,
+      filePath: join(base, "Gone.mkv"), downloadDir: base,
+    }));
+
+    const fakeFetch = (respond: () => Promise<Response>) => Object.assign(respond, { preconnect: fetch.preconnect });
+    const fetchSpy = spyOn(globalThis, "fetch").mockImplementation(fakeFetch(() => Promise.reject(new Error("offline"))));
+    try {
+      const dm = new DownloadManager({ stateDir, maxConcurrent: 0, organize: false, subtitles: ["English"] });
+      await dm.loadDownloads();
+      const state = dm.getDownloads()[0]!;
+      expect(state.subtitles).toEqual({ fetched: [], missing: ["English"] });
+      expect(state.subtitleError).toBe("No subtitle site answered");
+      expect(state.subtitlesRetryAt!).toBeGreaterThan(Date.now() + 30 * 60 * 1000);
+
+      fetchSpy.mockImplementation(fakeFetch(() => Promise.resolve(new Response("", { status: 404 }))));
+      await dm.finishDownloads();
+      expect(state.subtitleError).toBe("No subtitle site answered"); // Not due yet
+
+      // The sites answer but have none: missing for good, until asked again
+      await dm.fetchMissingSubtitles("1-1");
+      expect(state.subtitles).toEqual({ fetched: [], missing: ["English"] });
+      expect(state.subtitleError).toBeUndefined();
+      expect(state.subtitlesRetryAt).toBeUndefined();
+
+      writeFileSync(join(base, "Gone.en.srt"), "sub"); // Found on the next try, without asking the sites
+      const calls = fetchSpy.mock.calls.length;
+      await dm.fetchMissingSubtitles("1-1");
+      expect(state.subtitles).toEqual({ fetched: ["English"], missing: [] });
+      expect(fetchSpy.mock.calls.length).toBe(calls);
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+});
+
+// --- Subtitle fixing ---
+
+describe("subtitle fixing", () => {
+  const srt = "1\r\n00:00:01,500 --> 00:00:03,000\r\n<i>Hello</i>\r\nthere\r\n\r\n2\r\n00:01:00,000 --> 00:01:02,250\r\nBye\r\n";
+  // "السلام عليكم" three times in windows-1256
+  const arabic = new Uint8Array([
+    ...new TextEncoder().encode("1\n00:00:01,000 --> 00:00:02,000\n"),
+    ...Array(3).fill([0xc7, 0xe1, 0xd3, 0xe1, 0xc7, 0xe3, 0x20, 0xda, 0xe1, 0xed, 0xdf, 0xe3, 0x20]).flat(),
+    0x0a,
+  ]);
+
+  test("detects UTF-8, byte order marks and legacy code pages", () => {
+    expect(detectSubtitleEncoding(new TextEncoder().encode("héllo"))).toBe("utf-8");
+    expect(detectSubtitleEncoding(new Uint8Array([0xff, 0xfe, 0x41, 0x00]))).toBe("utf-16le");
+    expect(detectSubtitleEncoding(new Uint8Array([0x68, 0xe9]), "ru")).toBe("windows-1251");
+    expect(detectSubtitleEncoding(new Uint8Array([0x68, 0xe9]))).toBe("windows-1252");
+    expect(detectSubtitleEncoding(arabic)).toBe("windows-1256");
+  });
+
+  test("parses SRT and WebVTT cues", () => {
+    expect(parseSrt(srt)).toEqual([
+      { start: 1500, end: 3000, text: "<i>Hello</i>\nthere" },
+      { start: 60000, end: 62250, text: "Bye" },
+    ]);
+    expect(parseSrt("WEBVTT\n\nNOTE made by hand\n\n01:02.5 --> 01:04.000 align:start\nHi\n")).toEqual([
+      { start: 62500, end: 64000, text: "Hi" },
+    ]);
+  });
+
+  test("shifts and rescales timing, dropping cues moved before the start", () => {
+    const cues = parseSrt(srt);
+    expect(retimeCues(cues, -2000)).toEqual([{ start: 0, end: 1000, text: "<i>Hello</i>\nthere" }, { start: 58000, end: 60250, text: "Bye" }]);
+    expect(retimeCues(cues, -3000).map((c) => c.text)).toEqual(["Bye"]);
+    expect(retimeCues(cues, 0, { from: 25, to: 24 })[1]).toEqual({ start: 62500, end: 64844, text: "Bye" });
+  });
+
+  test("writes SRT, WebVTT and ASS", () => {
+    const cues = parseSrt(srt);
+    expect(formatSubtitles(cues, "srt")).toBe(srt.replace(/\r/g, ""));
+    expect(formatSubtitles(cues, "vtt")).toStartWith("WEBVTT\n\n00:00:01.500 --> 00:00:03.000\n<i>Hello</i>\nthere\n\n");
+    expect(formatSubtitles(cues, "ass")).toContain("Dialogue: 0,0:00:01.50,0:00:03.00,Default,,0,0,0,,{\\i1}Hello{\\i0}\\Nthere\n");
+  });
+
+  test("re-encodes a windows-1256 file as UTF-8", () => {
+    const fixed = fixSubtitle(arabic, { offsetMs: 500 }, "ar");
+    expect(fixed.encoding).toBe("windows-1256");
+    expect(fixed.text).toBe("1\n00:00:01,500 --> 00:00:02,500\n" + "السلام عليكم ".repeat(3).trim() + "\n");
+    expect(() => fixSubtitle(new TextEncoder().encode("not subtitles"))).toThrow("No subtitles found");
+  });
+});
+
+// --- parseCliArgs ---
+
+describe("parseCliArgs", () => {
+  test("returns null command for no arguments", () => {
+    expect(parseCliArgs([])).toEqual({ command: null, positionals: [], flags: {} });
+  });
+
+  test("splits command, positionals and flags", () => {
+    const args = parseCliArgs(["browse", "--sort", "rating", "--genre=drama"]);
+    expect(args.command).toBe("browse");
+    expect(args.flags).toEqual({ sort: "rating", genre: "drama" });
+  });
+
+  test("boolean flags do not swallow the next positional", () => {
+    const args = parseCliArgs(["search", "--json", "the", "matrix"]);
+    expect(args.positionals).toEqual(["the", "matrix"]);
+    expect(args.flags.json).toBe(true);
+  });
+
+  test("trailing value flag becomes true", () => {
+    expect(parseCliArgs(["download", "123", "--quality"]).flags.quality).toBe(true);
+  });
+
+  test("a value flag without its value is a usage error", () => {
+    expect(() => flagString(parseCliArgs(["download", "123", "--quality"]), "quality")).toThrow("--quality needs a value");
+    expect(flagString(parseCliArgs(["download", "123", "--quality", "720p"]), "quality")).toBe("720p");
+    expect(flagString(parseCliArgs(["download", "123"]), "quality")).toBeUndefined();
+  });
+
+  test("supports short help and version flags", () => {
+    expect(parseCliArgs(["-h"]).flags.help).toBe(true);
+    expect(parseCliArgs(["-v"]).flags.version).toBe(true);
+  });
+
+  test("treats everything after -- as positionals", () => {
+    expect(parseCliArgs(["search", "--", "--json"]).positionals).toEqual(["--json"]);
+  });
+});
+
+// --- pickTorrent ---
+
+describe("pickTorrent", () => {
+  const torrent = (quality: string, seeds: number) => ({
+    url: "", hash: quality, quality, type: "web",
+    seeds, peers: 0, size: "1 GB", size_bytes: 1e9,
+    video_codec: "x264", bit_depth: "8", audio_channels: "2.0",
+  });
+  const torrents = [torrent("720p", 40), torrent("1080p", 90), torrent("2160p", 10)];
+
+  test("picks the best-seeded torrent without a quality", () => {
+    expect(pickTorrent(torrents)?.quality).toBe("1080p");
+  });
+
+  test("picks the requested quality case-insensitively", () => {
+    expect(pickTorrent(torrents, "2160P")?.quality).toBe("2160p");
+  });
+
+  test("returns undefined when the quality is missing", () => {
+    expect(pickTorrent(torrents, "3D")).toBeUndefined();
+    expect(pickTorrent([])).toBeUndefined();
+  });
+});
+
+// --- Movie providers ---
+
+describe("resolveProvider", () => {
+  const emptyList = { status: "ok", data: { movie_count: 0, limit: 20, page_number: 1, movies: [] } };
+
+  test("resolves the built-in YTS provider", async () => {
+    const provider = await resolveProvider("yts");
+    expect(provider.name).toBe("yts");
+    expect(createYtsProvider({ baseUrl: "https://example.test/api/v2" }).name).toBe("yts");
+  });
+
+  test("resolves registered providers with their options", async () => {
+    let received: Record<string, any> = {};
+    registerProvider("internal", (options) => {
+      received = options;
+      return {
+        name: "internal",
+        list: async () => emptyList,
+        search: async () => emptyList,
+        details: async () => null,
+        suggestions: async () => emptyList,
+      };
+    });
+    const provider = await resolveProvider("internal", { baseUrl: "http://catalog.lan" });
+    expect(provider.name).toBe("internal");
+    expect(received.baseUrl).toBe("http://catalog.lan");
+    expect((await provider.search("anything")).data.movies).toEqual([]);
+  });
+
+  test("resolves a relative provider module against the config folder", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "movizone-test-"));
+    writeFileSync(join(dir, "catalog.mjs"), "export default (options) => ({ name: `catalog ${options.baseUrl}` });\n");
+    const provider = await resolveProvider("./catalog.mjs", { baseUrl: "http://catalog.lan" }, dir);
+    expect(provider.name).toBe("catalog http://catalog.lan");
+  });
+
+  test("rejects unknown provider names", async () => {
+    await expect(resolveProvider("nope")).rejects.toThrow('Unknown movie provider "nope"');
+  });
+});
+
+// --- Mirror failover ---
+
+describe("orderMirrors", () => {
+  const mirrors = ["https://a.test", "https://b.test", "https://c.test"];
+  const now = 1_000_000_000;
+
+  test("keeps configured order without health data", () => {
+    expect(orderMirrors(mirrors, {}, now)).toEqual(mirrors);
+  });
+
+  test("moves recently failing mirrors to the back", () => {
+    const health = { "https://a.test": { failures: 2, lastFailure: now - 1000 } };
+    expect(orderMirrors(mirrors, health, now)).toEqual(["https://b.test", "https://c.test", "https://a.test"]);
+  });
+
+  test("gives failed mirrors another chance after the cooldown", () => {
+    const health = { "https://a.test": { failures: 1, lastFailure: now - 10 * 60 * 1000 } };
+    expect(orderMirrors(mirrors, health, now)).toEqual(mirrors);
+  });
+
+  test("ignores old failures once a mirror recovered", () => {
+    const health = { "https://a.test": { failures: 0, lastFailure: now - 1000, lastSuccess: now } };
+    expect(orderMirrors(mirrors, health, now)[0]).toBe("https://a.test");
+  });
+});
+
+describe("backoffDelay", () => {
+  test("doubles per attempt up to the cap", () => {
+    expect(backoffDelay(0)).toBe(500);
+    expect(backoffDelay(1)).toBe(1000);
+    expect(backoffDelay(2)).toBe(2000);
+    expect(backoffDelay(10)).toBe(8000);
+  });
+});
+
+describe("formatAgo", () => {
+  const now = 1_000_000_000;
+
+  test("returns never for missing timestamps", () => {
+    expect(formatAgo(undefined, now)).toBe("never");
+  });
+
+  test("formats seconds, minutes, hours and days", () => {
+    expect(formatAgo(now - 5000, now)).toBe("5s ago");
+    expect(formatAgo(now - 5 * 60000, now)).toBe("5m ago");
+    expect(formatAgo(now - 3 * 3600000, now)).toBe("3h ago");
+    expect(formatAgo(now - 2 * 86400000, now)).toBe("2d ago");
+  });
+});
+
+// --- Response cache ---
+
+describe("isFresh", () => {
+  const now = 1_000_000_000;
+
+  test("is fresh within the TTL", () => {
+    expect(isFresh(now - 30_000, 60, now)).toBe(true);
+  });
+
+  test("is stale once the TTL has passed", () => {
+    expect(isFresh(now - 60_000, 60, now)).toBe(false);
+    expect(isFresh(now - 3_600_000, 60, now)).toBe(false);
+  });
+});
+
+// --- rankMovies ---
+
+describe("rankMovies", () => {
+  const movie = (id: number, title: string, year: number, rating: number) => ({
+    id, title, year, rating, title_long: title, runtime: 0, genres: [], summary: "", language: "en",
+    imdb_code: "", yt_trailer_code: "", small_cover_image: "", medium_cover_image: "", large_cover_image: "",
+    torrents: [],
+  });
+  const movies = [
+    movie(1, "Interception", 2009, 5.3),
+    movie(2, "Inception", 2010, 8.8),
+    movie(3, "Zootopia", 2016, 8.0),
+  ];
+
+  test("puts the closest title first", () => {
+    expect(rankMovies("inception", movies)[0]!.id).toBe(2);
+  });
+
+  test("drops weak matches below minMatch", () => {
+    expect(rankMovies("incpetion", movies, 40).map((m) => m.id)).not.toContain(3);
+  });
+
+  test("prefers the requested year", () => {
+    const remakes = [movie(10, "Dune", 1984, 6.3), movie(11, "Dune", 2021, 8.0)];
+    expect(rankMovies("dune 1984", remakes)[0]!.id).toBe(10);
+  });
+});
+
+// --- Settings ---
+
+describe("setting names", () => {
+  test("maps config keys to CLI flags", () => {
+    expect(settingFlag("downloadDir")).toBe("download-dir");
+    expect(settingFlag("offline")).toBe("offline");
+  });
+
+  test("maps config keys to env vars", () => {
+    expect(settingEnvVar("downloadDir")).toBe("MOVIZONE_DOWNLOAD_DIR");
+    expect(settingEnvVar("peerTimeoutSec")).toBe("MOVIZONE_PEER_TIMEOUT_SEC");
+  });
+});
+
+describe("parseSettingValue", () => {
+  test("parses numbers", () => {
+    expect(parseSettingValue("number", "25")).toBe(25);
+    expect(() => parseSettingValue("number", "lots")).toThrow();
+    expect(() => parseSettingValue("number", "")).toThrow();
+  });
+
+  test("parses booleans", () => {
+    expect(parseSettingValue("boolean", "yes")).toBe(true);
+    expect(parseSettingValue("boolean", "0")).toBe(false);
+    expect(() => parseSettingValue("boolean", "maybe")).toThrow();
+  });
+
+  test("splits lists on commas and newlines", () => {
+    expect(parseSettingValue("list", "udp://a:1, udp://b:2\nudp://c:3,")).toEqual(["udp://a:1", "udp://b:2", "udp://c:3"]);
+  });
+
+  test("expands ~ in paths", () => {
+    expect(parseSettingValue("path", "~/Movies")).not.toStartWith("~");
+    expect(parseSettingValue("path", "/mnt/nas")).toBe("/mnt/nas");
+  });
+});
+
+describe("applySettingOverrides", () => {
+  test("applies env vars and reports invalid ones", () => {
+    const config = { ...DEFAULT_CONFIG };
+    const errors = applySettingOverrides(
+      config,
+      { MOVIZONE_DOWNLOAD_DIR: "/mnt/nas/movies", MOVIZONE_PAGE_SIZE: "many" },
+      settingEnvVar,
+    );
+    expect(config.downloadDir).toBe("/mnt/nas/movies");
+    expect(config.pageSize).toBe(DEFAULT_CONFIG.pageSize);
+    expect(errors).toHaveLength(1);
+  });
+
+  test("applies CLI flags, including bare boolean flags", () => {
+    const config = { ...DEFAULT_CONFIG };
+    applySettingOverrides(config, { "page-size": "50", offline: true }, settingFlag);
+    expect(config.pageSize).toBe(50);
+    expect(config.offline).toBe(true);
+  });
+
+  test("rejects a maxConcurrent that would never start a download", () => {
+    const config = { ...DEFAULT_CONFIG };
+    const errors = applySettingOverrides(config, { MOVIZONE_MAX_CONCURRENT: "0" }, settingEnvVar);
+    expect(errors).toEqual(["Invalid MOVIZONE_MAX_CONCURRENT: Expected at least 1, got 0"]);
+    expect(config.maxConcurrent).toBe(DEFAULT_CONFIG.maxConcurrent);
+    applySettingOverrides(config, { "max-concurrent": "3" }, settingFlag);
+    expect(config.maxConcurrent).toBe(3);
+  });
+
+  test("rejects bare flags for settings that aren't true/false", () => {
+    const config = { ...DEFAULT_CONFIG };
+    const errors = applySettingOverrides(config, parseCliArgs(["browse", "--page-size", "--download-dir"]).flags, settingFlag);
+    expect(errors).toEqual([
+      "Invalid download-dir: Expected a path, got true",
+      "Invalid page-size: Expected a non-negative number, got true",
+    ]);
+    expect(config.pageSize).toBe(DEFAULT_CONFIG.pageSize);
+    expect(config.downloadDir).toBe(DEFAULT_CONFIG.downloadDir);
+  });
+});
+
+describe("coerceSettingValue", () => {
+  test("parses config file strings like env vars", () => {
+    expect(coerceSettingValue("path", "~/nas/movies")).toBe(join(homedir(), "nas/movies"));
+    expect(coerceSettingValue("number", "20")).toBe(20);
+    expect(coerceSettingValue("list", [" en ", "", "ar"])).toEqual(["en", "ar"]);
+  });
+
+  test("rejects JSON values of the wrong type", () => {
+    expect(() => coerceSettingValue("number", true)).toThrow("Expected a non-negative number, got true");
+    expect(() => coerceSettingValue("list", "en")).not.toThrow();
+    expect(() => coerceSettingValue("list", [1, 2])).toThrow("Expected a list of text");
+    expect(() => coerceSettingValue("boolean", null)).toThrow("Expected true or false, got null");
+  });
+});
+
+// --- Watchlist ---
+
+describe("Watchlist", () => {
+  const movie = (id: number, title: string) => ({
+    id, title, year: 2010, rating: 8, title_long: title, runtime: 0, genres: [], summary: "", language: "en",
+    imdb_code: `tt${id}`, yt_trailer_code: "", small_cover_image: "", medium_cover_image: "", large_cover_image: "",
+    torrents: [],
+  });
+  const tempFile = () => join(mkdtempSync(join(tmpdir(), "movizone-test-")), "watchlist.json");
+
+  test("starts empty when there is no file", async () => {
+    const list = new Watchlist(tempFile());
+    await list.load();
+    expect(list.list()).toEqual([]);
+  });
+
+  test("refuses to save over a file it couldn't read", async () => {
+    const file = tempFile();
+    writeFileSync(file, '{"movie": ');
+    const list = new Watchlist(file);
+    await list.load();
+    expect(list.loadError).toContain("could not be read");
+    await expect(list.add(movie(1, "Inception"))).rejects.toThrow("Not changing your watchlist");
+    expect(await Bun.file(file).text()).toBe('{"movie": ');
+  });
+
+  test("persists movie snapshots and notes across loads", async () => {
+    const file = tempFile();
+    const list = new Watchlist(file);
+    await list.add(movie(1, "Inception"), "with popcorn");
+
+    const reloaded = new Watchlist(file);
+    await reloaded.load();
+    expect(reloaded.has(1)).toBe(true);
+    expect(reloaded.list()[0]!.movie.title).toBe("Inception");
+    expect(reloaded.list()[0]!.note).toBe("with popcorn");
+  });
+
+  test("re-adding keeps the original date and note", async () => {
+    const list = new Watchlist(tempFile());
+    await list.add(movie(1, "Inception"), "first");
+    const addedAt = list.list()[0]!.addedAt;
+    await list.add(movie(1, "Inception"));
+    expect(list.list()).toHaveLength(1);
+    expect(list.list()[0]!.addedAt).toBe(addedAt);
+    expect(list.list()[0]!.note).toBe("first");
+  });
+
+  test("removes entries and clears notes", async () => {
+    const list = new Watchlist(tempFile());
+    await list.add(movie(1, "Inception"), "note");
+    await list.add(movie(2, "Interstellar"));
+    await list.setNote(1, "");
+    expect(list.list().find((e) => e.movie.id === 1)!.note).toBeUndefined();
+    await list.remove(2);
+    expect(list.has(2)).toBe(false);
+  });
+});
+
+// --- Library index ---
+
+describe("parseReleaseName", () => {
+  test("reads dotted release names", () => {
+    expect(parseReleaseName("Inception.2010.1080p.BluRay.x264-YTS.mp4")).toEqual({ title: "Inception", year: 2010, quality: "1080p" });
+  });
+
+  test("reads library names", () => {
+    expect(parseReleaseName("Inception (2010) [720p].mkv")).toEqual({ title: "Inception", year: 2010, quality: "720p" });
+  });
+
+  test("takes the last year, so titles with numbers survive", () => {
+    expect(parseReleaseName("Blade.Runner.2049.2017.2160p.mkv")).toMatchObject({ title: "Blade Runner 2049", year: 2017 });
+    expect(parseReleaseName("1917 (2019)")).toMatchObject({ title: "1917", year: 2019 });
+  });
+
+  test("falls back to the whole name", () => {
+    expect(parseReleaseName("home_video.avi")).toEqual({ title: "home video", year: undefined, quality: undefined });
+  });
+});
+
+const catalogMovie = (id: number, title: string, year: number, hash = "") => ({
+  id, title, year, rating: 7, title_long: title, runtime: 0, genres: [], summary: "", language: "en",
+  imdb_code: `tt${id}`, yt_trailer_code: "", small_cover_image: "", medium_cover_image: "", large_cover_image: "",
+  torrents: hash ? [{
+    url: "", hash, quality: "1080p", type: "bluray", seeds: 1, peers: 1, size: "", size_bytes: 0,
+    video_codec: "", bit_depth: "", audio_channels: "",
+  }] : [],
+});
+const candidates = [
+  catalogMovie(1, "Aliens", 1986),
+  catalogMovie(2, "Alien", 1979, "ABC"),
+  catalogMovie(3, "Alien: Covenant", 2017),
+];
+
+describe("matchMovie", () => {
+  test("prefers the exact title in the right year", () => {
+    expect(matchMovie({ title: "Alien", year: 1979 }, candidates)?.movie.id).toBe(2);
+    expect(matchMovie({ title: "Aliens", year: 1986 }, candidates)?.movie.id).toBe(1);
+  });
+
+  test("matches on the torrent's info hash first", () => {
+    expect(matchMovie({ title: "Something else" }, candidates, "abc")).toMatchObject({ matchedBy: "hash" });
+  });
+
+  test("finds nothing when the year is off", () => {
+    expect(matchMovie({ title: "Alien", year: 2003 }, candidates)).toBeUndefined();
+  });
+});
+
+describe("Library", () => {
+  test("indexes, matches and forgets files on disk", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "movizone-test-"));
+    mkdirSync(join(dir, "Alien (1979)"));
+    writeFileSync(join(dir, "Alien (1979)", "Alien (1979) [1080p].mkv"), "video");
+    writeFileSync(join(dir, "Alien (1979)", "Alien (1979) [1080p].en.srt"), "sub");
+    writeFileSync(join(dir, "Alien (1979)", "Alien-sample.mkv"), "v");
+    writeFileSync(join(dir, "Holiday.2022.mp4"), "video");
+    mkdirSync(join(dir, ".downloads"));
+    writeFileSync(join(dir, ".downloads", "partial.mp4"), "v");
+
+    const file = join(mkdtempSync(join(tmpdir(), "movizone-test-")), "library.json");
+    const library = new Library(file);
+    const lookups: string[] = [];
+    const lookup = async (query: string) => {
+      lookups.push(query);
+      return candidates;
+    };
+
+    expect(await library.scan({ folders: [dir], lookup })).toEqual({ added: 2, removed: 0, unmatched: 1 });
+    const [alien, holiday] = library.list();
+    expect(alien).toMatchObject({ title: "Alien", year: 1979, quality: "1080p", subtitles: ["en"], matchedBy: "name" });
+    expect(alien!.movie?.id).toBe(2);
+    expect(holiday!.movie).toBeUndefined();
+    expect(library.has(candidates[1]!)).toBe(true);
+    expect(library.has(candidates[0]!)).toBe(false);
+
+    // Unchanged files are not looked up again, and the index survives a reload
+    await library.scan({ folders: [dir], lookup });
+    expect(lookups.sort()).toEqual(["Alien", "Holiday"]);
+    const reloaded = new Library(file);
+    await reloaded.load();
+    expect(reloaded.list().map((e) => e.path)).toEqual(library.list().map((e) => e.path));
+
+    rmSync(join(dir, "Holiday.2022.mp4"));
+    expect(await library.scan({ folders: [dir], lookup })).toMatchObject({ removed: 1 });
+    expect(library.list()).toHaveLength(1);
+  });
+});
+
+// --- Download history ---
+
+describe("historyStats", () => {
+  const entry = (outcome: HistoryEntry["outcome"], bytes: number, finishedAt: string): HistoryEntry => ({
+    id: finishedAt, title: "A", quality: "1080p", bytes, finishedAt: new Date(finishedAt).getTime(), outcome,
+  });
+
+  test("totals bytes per month, newest first", () => {
+    const stats = historyStats([
+      entry("done", 100, "2026-09-10T12:00:00"),
+      entry("done", 200, "2026-10-01T12:00:00"),
+      entry("failed", 50, "2026-10-02T12:00:00"),
+    ]);
+    expect(stats.bytes).toBe(350);
+    expect(stats.months).toEqual([
+      { month: "2026-10", bytes: 250, downloads: 2 },
+      { month: "2026-09", bytes: 100, downloads: 1 },
+    ]);
+  });
+
+  test("leaves cancelled downloads out of the success rate", () => {
+    const stats = historyStats([
+      entry("done", 1, "2026-10-01T12:00:00"),
+      entry("timeout", 0, "2026-10-01T12:00:00"),
+      entry("cancelled", 0, "2026-10-01T12:00:00"),
+    ]);
+    expect(stats.completed).toBe(1);
+    expect(stats.successRate).toBe(0.5);
+  });
+
+  test("is all zeros with no history", () => {
+    expect(historyStats([])).toEqual({ downloads: 0, completed: 0, successRate: 0, bytes: 0, months: [] });
+  });
+});
+
+describe("DownloadHistory", () => {
+  const tempFile = () => join(mkdtempSync(join(tmpdir(), "movizone-test-")), "history.jsonl");
+
+  test("appends entries that survive a reload, skipping torn lines", async () => {
+    const file = tempFile();
+    const history = new DownloadHistory(file);
+    history.append({ id: "1", title: "Inception", quality: "1080p", hash: "abc", bytes: 10, finishedAt: 1, outcome: "done" });
+    history.append({ id: "2", title: "Zootopia", quality: "720p", bytes: 5, finishedAt: 2, outcome: "failed" });
+    writeFileSync(file, (await Bun.file(file).text()) + '{"id": "3", "tit');
+
+    const reloaded = new DownloadHistory(file);
+    await reloaded.load();
+    expect(reloaded.list().map((e) => e.id)).toEqual(["2", "1"]);
+    expect(reloaded.list("incpetion").map((e) => e.id)).toEqual(["1"]);
+    expect(reloaded.completed("ABC").map((e) => e.id)).toEqual(["1"]);
+  });
+
+  test("records a cancelled download once, across restarts", async () => {
+    const stateDir = mkdtempSync(join(tmpdir(), "movizone-test-"));
+    const history = new DownloadHistory(tempFile());
+    const dm = new DownloadManager({ stateDir, maxConcurrent: 0, history });
+    const id = dm.startDownload("magnet:?xt=urn:btih:abc", "Inception");
+    await dm.cancelDownload(id);
+    await dm.finishDownloads();
+    expect(history.list()).toMatchObject([{ id, title: "Inception", hash: "abc", outcome: "cancelled" }]);
+
+    const restarted = new DownloadManager({ stateDir, maxConcurrent: 0, history });
+    await restarted.loadDownloads();
+    expect(history.list()).toHaveLength(1);
+  });
+
+  test("organizes a day-old download that finished unwatched before cleaning it up", async () => {
+    const base = mkdtempSync(join(tmpdir(), "movizone-test-"));
+    const root = join(base, "Zootopia.2016.720p");
+    mkdirSync(root);
+    writeFileSync(join(root, "Zootopia.2016.720p.mp4"), "x".repeat(1000));
+    const stateDir = join(base, ".downloads");
+    mkdirSync(stateDir);
+    writeFileSync(join(stateDir, "1-1.json"), JSON.stringify({
+      id: "1-1", movieTitle: "Zootopia", quality: "720p", status: "done", year: 2016,
+      progress: 1, downloaded: 1000, total: 1000, speed: 0, eta: 0, peers: 0,
+      filePath: root, downloadDir: base, startedAt: Date.now() - 2 * 24 * 60 * 60 * 1000,
+    }));
+    const history = new DownloadHistory(tempFile());
+
+    const dm = new DownloadManager({ stateDir, maxConcurrent: 0, organize: true, history });
+    await dm.loadDownloads();
+    const movie = join(base, "Movies", "Zootopia (2016)", "Zootopia (2016) [720p].mp4");
+    expect(existsSync(movie)).toBe(true);
+    expect(history.list()).toMatchObject([{ id: "1-1", outcome: "done" }]);
+
+    const next = new DownloadManager({ stateDir, maxConcurrent: 0, organize: true, history });
+    await next.loadDownloads();
+    expect(next.getDownloads()).toEqual([]);
+    expect(history.list()).toHaveLength(1);
+  });
+
+  test("records a download once when two processes see it finish", async () => {
+    const stateDir = mkdtempSync(join(tmpdir(), "movizone-test-"));
+    const file = tempFile();
+    writeFileSync(join(stateDir, "dl_1.json"), JSON.stringify({
+      id: "dl_1", movieTitle: "Zootopia", quality: "720p", status: "done",
+      progress: 1, downloaded: 10, total: 10, speed: 0, eta: 0, peers: 0, startedAt: Date.now(),
+    }));
+    const tui = new DownloadManager({ stateDir, maxConcurrent: 0, organize: false, history: new DownloadHistory(file) });
+    const cron = new DownloadManager({ stateDir, maxConcurrent: 0, organize: false, history: new DownloadHistory(file) });
+    await Promise.all([tui.loadDownloads(), cron.loadDownloads()]);
+
+    const reloaded = new DownloadHistory(file);
+    await reloaded.load();
+    expect(reloaded.list().map((e) => e.id)).toEqual(["dl_1"]);
+  });
+
+  test("records downloads that stalled while no session was watching", async () => {
+    const stateDir = mkdtempSync(join(tmpdir(), "movizone-test-"));
+    const state = {
+      id: "dl_1", movieTitle: "Zootopia", quality: "720p", status: "stalled", error: "No progress for 35 min",
+      retries: 3, progress: 0.4, downloaded: 4, total: 10, speed: 0, eta: 0, peers: 0, startedAt: Date.now(),
+    };
+    writeFileSync(join(stateDir, "dl_1.json"), JSON.stringify(state));
+    const history = new DownloadHistory(tempFile());
+    const dm = new DownloadManager({ stateDir, maxConcurrent: 0, history });
+    await dm.loadDownloads();
+    expect(history.list()).toMatchObject([{ id: "dl_1", bytes: 4, outcome: "stalled", error: "No progress for 35 min" }]);
+  });
+});
+
+// --- Helper protocol ---
+
+describe("helper protocol", () => {
+  const control = { version: PROTOCOL_VERSION, downloadLimit: -1, uploadLimit: -1 };
+
+  test("round-trips messages", () => {
+    const msg = { type: "progress", progress: 0.5, downloaded: 5, total: 10, speed: 0, eta: null, peers: 2 } as const;
+    expect(parseMessage(encodeMessage(msg))).toEqual(msg);
+  });
+
+  test("rejects unknown types, bad fields and non-JSON lines", () => {
+    expect(() => parseMessage('{"type":"teleport"}')).toThrow('Unknown message type "teleport"');
+    expect(() => parseMessage('{"type":"done","path":42}')).toThrow('"path" should be string, got number');
+    expect(() => parseMessage("Segmentation fault")).toThrow("Not a JSON message");
+    expect(() => encodeMessage({ type: "error" } as any)).toThrow('"message" should be string');
+  });
+
+  test("rejects control files from another protocol version", () => {
+    expect(parseControl(encodeControl(control))).toEqual(control);
+    expect(() => parseControl(JSON.stringify({ ...control, version: PROTOCOL_VERSION + 1 }))).toThrow("protocol");
+    expect(() => parseControl(JSON.stringify({ downloadLimit: -1, uploadLimit: -1 }))).toThrow("protocol");
+  });
+
+  test("only accepts known commands", () => {
+    const pause = { ...control, command: { action: "pause", at: 1 } } as const;
+    expect(parseControl(encodeControl(pause)).command).toEqual({ action: "pause", at: 1 });
+    expect(() => parseControl(JSON.stringify({ ...control, command: { action: "reboot", at: 1 } }))).toThrow("Bad control command");
+  });
+
+  test("folds messages into download state", () => {
+    const state = { status: "connecting", progress: 0, downloaded: 0, total: 0, speed: 0, eta: 0, peers: 0 } as any;
+    const file = { name: "Movie.mkv", length: 10, selected: true };
+    applyMessage(state, { type: "hello", version: PROTOCOL_VERSION, pid: 1 });
+    applyMessage(state, { type: "meta", name: "Movie", size: 10, files: [file] });
+    expect(state).toMatchObject({ protocol: PROTOCOL_VERSION, status: "downloading", total: 10, files: [file] });
+
+    applyMessage(state, { type: "progress", progress: 0.5, downloaded: 5, total: 10, speed: 0, eta: null, peers: 0 });
+    expect(state.eta).toBe(0);
+
+    applyMessage(state, { type: "seeding", path: "/dl/Movie.mkv" }, 1000);
+    applyMessage(state, { type: "done", path: "/dl/Movie.mkv" }, 2000);
+    expect(state).toMatchObject({ status: "done", progress: 1, seedingSince: 1000, finishedAt: 1000 });
+  });
+
+  test("counts stall retries and ends stalled downloads", () => {
+    const state = { status: "downloading", progress: 0.4, downloaded: 4, total: 10, speed: 0, eta: 0, peers: 0 } as any;
+    applyMessage(state, { type: "retry", attempt: 1, of: 3 });
+    applyMessage(state, { type: "retry", attempt: 2, of: 3 });
+    applyMessage(state, { type: "stalled", minutes: 35 }, 5000);
+    expect(state).toMatchObject({ status: "stalled", retries: 2, error: "No progress for 35 min", finishedAt: 5000 });
+  });
+});
+
+// --- Trackers ---
+
+describe("parseTrackerList", () => {
+  test("reads one URL per line, skipping comments, blanks and duplicates", () => {
+    const text = "# best trackers\nudp://a.example:1337/announce\n\n  https://b.example/announce  \nudp://a.example:1337/announce\nnot a tracker\n";
+    expect(parseTrackerList(text)).toEqual(["udp://a.example:1337/announce", "https://b.example/announce"]);
+  });
+});
+
+describe("rankTrackers", () => {
+  const now = Date.now();
+  const health: Record<string, TrackerHealth> = {
+    dead: { failures: 5, lastFailure: now - 1000 },
+    retired: { failures: 9, lastFailure: now - 8 * 24 * 60 * 60 * 1000 },
+    failing: { failures: 1, lastFailure: now - 1000 },
+    ok: { failures: 0, lastSuccess: now - 1000 },
+  };
+
+  test("drops dead trackers and puts failing ones last", () => {
+    expect(rankTrackers(["dead", "failing", "new", "ok"], health, now)).toEqual(["new", "ok", "failing"]);
+  });
+
+  test("gives dead trackers another chance after a week", () => {
+    expect(rankTrackers(["retired", "ok"], health, now)).toEqual(["ok", "retired"]);
+  });
+});
+
+describe("TrackerStore", () => {
+  const tempStore = () => {
+    const dir = mkdtempSync(join(tmpdir(), "movizone-test-"));
+    return { dir, store: new TrackerStore(join(dir, "trackers.txt"), join(dir, "trackers.json")) };
+  };
+  const a = "udp://a.example:1337/announce";
+  const b = "udp://b.example:6969/announce";
+
+  test("merges imported lists into the list file", async () => {
+    const { dir, store } = tempStore();
+    writeFileSync(join(dir, "trackers.txt"), `${a}\n`);
+    writeFileSync(join(dir, "best.txt"), `${b}\n\n${a}\n`);
+    expect(await store.import(join(dir, "best.txt"))).toEqual([b]);
+    expect(new TrackerStore(join(dir, "trackers.txt")).list()).toEqual([a, b]);
+  });
+
+  test("counts each report once and prunes dead trackers", () => {
+    const { dir, store } = tempStore();
+    writeFileSync(join(dir, "trackers.txt"), `${a}\n${b}\n`);
+    for (let at = 1; at <= 5; at++) {
+      const report = { at, results: [{ url: a, ok: false, error: "timed out" }, { url: b, ok: true, peers: 12 }] };
+      store.record(report);
+      store.record(report);
+    }
+    const reloaded = new TrackerStore(join(dir, "trackers.txt"), join(dir, "trackers.json"));
+    expect(reloaded.health()[a]).toMatchObject({ failures: 5, lastError: "timed out" });
+    expect(reloaded.active([], 10)).toEqual([b]);
+    expect(reloaded.prune(10)).toEqual([a]);
+    expect(new TrackerStore(join(dir, "trackers.txt")).list()).toEqual([b]);
+  });
+
+  test("skips reports in which no tracker answered", () => {
+    const { dir, store } = tempStore();
+    for (let at = 1; at <= 5; at++) {
+      store.record({ at, results: [{ url: a, ok: false, error: "No response", timedOut: true }, { url: b, ok: false, error: "ECONNREFUSED" }] });
+    }
+    expect(store.health()).toEqual({});
+    expect(existsSync(join(dir, "trackers.json"))).toBe(false);
+  });
+
+  test("records reports a helper left in its state file", async () => {
+    const { dir, store } = tempStore();
+    const state = {
+      id: "dl_1", movieTitle: "Zootopia", quality: "720p", status: "downloading", progress: 0, downloaded: 0,
+      total: 0, speed: 0, eta: 0, peers: 0, trackerReport: { at: 1, results: [{ url: a, ok: true, peers: 3 }] },
+    };
+    writeFileSync(join(dir, "dl_1.json"), JSON.stringify(state));
+    const dm = new DownloadManager({ stateDir: dir, maxConcurrent: 0, trackers: store });
+    await dm.loadDownloads();
+    await dm.refreshOrphaned();
+    expect(store.health()[a]).toEqual({ failures: 0, lastReport: 1, lastSuccess: 1, peers: 3 });
+  });
+});
+
+// --- Torrent sources ---
+
+describe("parseMagnet", () => {
+  test("reads the hash, name and trackers", () => {
+    const source = parseMagnet("magnet:?xt=urn:btih:ABCDEF0123456789ABCDEF0123456789ABCDEF01&dn=Some.Movie.2019.1080p&tr=udp%3A%2F%2Fa.example%3A1337");
+    expect(source).toMatchObject({
+      infoHash: "abcdef0123456789abcdef0123456789abcdef01",
+      name: "Some.Movie.2019.1080p",
+      trackers: ["udp://a.example:1337"],
+    });
+    expect(source.magnet).toStartWith("magnet:?xt=urn:btih:abcdef0123456789abcdef0123456789abcdef01&dn=Some.Movie.2019.1080p&tr=udp%3A%2F%2Fa.example%3A1337");
+  });
+
+  test("converts base32 hashes to hex", () => {
+    expect(parseMagnet("magnet:?xt=urn:btih:VPG6AITEU6CKRYYMI4ANEOTBCV3U7IDE").infoHash)
+      .toBe("abcde02264a784a8e30c4700d23a6115774fa064");
+  });
+
+  test("rejects links without an info hash", () => {
+    expect(() => parseMagnet("magnet:?dn=Nothing")).toThrow("info hash");
+    expect(() => parseMagnet("https://example.com/movie.torrent")).toThrow("magnet");
+  });
+});
+
+describe("parseTorrentFile", () => {
+  const bencode = (value: unknown): string => {
+    if (typeof value === "number") return `i${value}e`;
+    if (typeof value === "string") return `${Buffer.byteLength(value)}:${value}`;
+    if (Array.isArray(value)) return `l${value.map(bencode).join("")}e`;
+    const dict = value as Record<string, unknown>;
+    return `d${Object.keys(dict).sort().map((k) => bencode(k) + bencode(dict[k])).join("")}e`;
+  };
+  const info = { name: "Some Movie (2019)", "piece length": 16384, pieces: "x".repeat(20), files: [
+    { length: 1000, path: ["Some Movie (2019).mkv"] },
+    { length: 24, path: ["Some Movie (2019).srt"] },
+  ] };
+
+  test("hashes the info dictionary and reads name, size and trackers", () => {
+    const bytes = Buffer.from(bencode({
+      announce: "udp://a.example:1337/announce",
+      "announce-list": [["udp://a.example:1337/announce"], ["https://b.example/announce"]],
+      info,
+    }));
+    const source = parseTorrentFile(bytes);
+    expect(source).toMatchObject({
+      infoHash: createHash("sha1").update(bencode(info)).digest("hex"),
+      name: "Some Movie (2019)",
+      size: 1024,
+      trackers: ["udp://a.example:1337/announce", "https://b.example/announce"],
+    });
+    expect(source.magnet).toContain(`xt=urn:btih:${source.infoHash}`);
+  });
+
+  test("rejects files that aren't torrents", () => {
+    expect(() => parseTorrentFile(Buffer.from("<html>not found</html>"))).toThrow("Not a valid .torrent file");
+    expect(() => parseTorrentFile(Buffer.from(bencode({ announce: "udp://a.example" })))).toThrow("no info dictionary");
+    expect(() => parseTorrentFile(Buffer.from("d4:infoi5"))).toThrow("Truncated integer");
+    expect(() => parseTorrentFile(Buffer.from("d4:info"))).toThrow("Truncated data");
+    expect(() => parseTorrentFile(Buffer.from("d4:infoix5ee"))).toThrow("Bad integer");
+  });
+
+  test("keeps a copy of an added .torrent with the download", () => {
+    const dir = mkdtempSync(join(tmpdir(), "movizone-test-"));
+    const original = join(dir, "added.torrent");
+    writeFileSync(original, bencode({ info }));
+    const dm = new DownloadManager({ stateDir: join(dir, "state"), maxConcurrent: 0 });
+    const id = dm.startDownload("magnet:?xt=urn:btih:abc", "Some Movie", undefined, { torrentFile: original });
+    const state = dm.getDownloads().find((d) => d.id === id)!;
+    expect(state.torrentFile).toBe(join(dir, "state", `${id}.torrent`));
+    expect(existsSync(state.torrentFile!)).toBe(true);
+  });
+});
+
+// --- Clipboard ---
+
+describe("clipboardCommands", () => {
+  const all = () => true;
+
+  test("prefers Wayland, then X11 tools that are installed", () => {
+    const env = { WAYLAND_DISPLAY: "wayland-0", DISPLAY: ":0" };
+    expect(clipboardCommands("linux", env, all).map(([c]) => c)).toEqual(["wl-copy", "xclip", "xsel"]);
+    expect(clipboardCommands("linux", env, (c) => c === "xsel")).toEqual([["xsel", "--clipboard", "--input"]]);
+  });
+
+  test("finds nothing to run on a headless box or a Mac over SSH", () => {
+    expect(clipboardCommands("linux", { SSH_TTY: "/dev/pts/0" }, all)).toEqual([]);
+    expect(clipboardCommands("darwin", { SSH_CONNECTION: "10.0.0.2 5000 10.0.0.3 22" }, all)).toEqual([]);
+    expect(clipboardCommands("darwin", {}, all)).toEqual([["pbcopy"]]);
+  });
+});
+
+describe("osc52Sequence", () => {
+  test("base64-encodes the text for the terminal", () => {
+    expect(osc52Sequence("magnet:?xt", {})).toBe(`\x1b]52;c;${btoa("magnet:?xt")}\x07`);
+  });
+
+  test("wraps the escape so tmux passes it through", () => {
+    expect(osc52Sequence("hi", { TMUX: "/tmp/tmux-1000/default,1,0" })).toBe(`\x1bPtmux;\x1b\x1b]52;c;aGk=\x07\x1b\\`);
+  });
+});
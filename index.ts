@@ -8,12 +8,18 @@ import figlet from "figlet";
 import gradient from "gradient-string";
 import terminalImage from "terminal-image";
 import { homedir } from "os";
-import { join, dirname } from "path";
-import { readdir, rename, unlink, rm, mkdir } from "node:fs/promises";
-import { mkdirSync } from "node:fs";
+import { join, dirname, extname, basename, resolve, sep } from "path";
+import { readdir, rename, unlink, rm, mkdir, stat, statfs, copyFile, rmdir } from "node:fs/promises";
+import { appendFileSync, copyFileSync, existsSync, mkdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from "node:fs";
 import { spawn as nodeSpawn } from "node:child_process";
+import { createHash } from "node:crypto";
 import { createInterface } from "readline";
+import { TextDecoder } from "node:util";
 import { fileURLToPath } from "url";
+import {
+  PROTOCOL_VERSION, VIDEO_EXTENSIONS, SUBTITLE_EXTENSIONS, parseMessage, applyMessage, encodeControl,
+} from "./protocol.mjs";
+import type { TorrentFile, HelperMessage, HelperControl, HelperCommand, TrackerResult } from "./protocol.mjs";
 
 // --- TUI Theme ---
 
@@ -57,6 +63,13 @@ function contextBar(left: string, right: string): string {
   });
 }
 
+/** Context-bar suffix for cached responses; stale data is called out in yellow */
+function cacheLabel(cache?: CacheInfo): string {
+  if (!cache) return "";
+  const age = `cached ${formatAgo(cache.cachedAt)}`;
+  return cache.stale ? chalk.dim(" · ") + chalk.yellow(`⚠ stale, ${age}`) : chalk.dim(` · ${age}`);
+}
+
 function navFooter(): string {
   return boxen(
     chalk.dim("  ↑↓ Navigate") + "  " +
@@ -73,25 +86,30 @@ function navFooter(): string {
   );
 }
 
-// --- API Layer ---
+// --- Config ---
+
+const CONFIG_DIR = join(process.env.XDG_CONFIG_HOME || join(homedir(), ".config"), "movizone");
+const STATE_HOME = join(process.env.XDG_STATE_HOME || join(homedir(), ".local", "state"), "movizone");
+const DATA_HOME = join(process.env.XDG_DATA_HOME || join(homedir(), ".local", "share"), "movizone");
 
-const API_BASE = "https://yts.torrentbay.st/api/v2";
-const DOWNLOAD_DIR = join(homedir(), "Downloads", "Movizone");
-const STATE_DIR = join(DOWNLOAD_DIR, ".downloads");
+/** YTS API mirrors, tried in order */
+const API_MIRRORS = [
+  "https://yts.torrentbay.st/api/v2",
+  "https://yts.mx/api/v2",
+];
 
+/** Seed for trackers.txt until the user edits or imports a list */
 const TRACKERS = [
-  "udp://open.demonii.com:1337/announce",
-  "udp://tracker.openbittorrent.com:80",
-  "udp://tracker.coppersurfer.tk:6969",
-  "udp://glotorrents.pw:6969/announce",
   "udp://tracker.opentrackr.org:1337/announce",
-  "udp://torrent.gresille.org:80/announce",
-  "udp://p4p.arenabg.com:1337",
-  "udp://tracker.leechers-paradise.org:6969",
+  "udp://open.demonii.com:1337/announce",
+  "udp://open.stealth.si:80/announce",
+  "udp://tracker.torrent.eu.org:451/announce",
+  "udp://exodus.desync.com:6969/announce",
+  "udp://explodie.org:6969/announce",
+  "udp://tracker.dler.org:6969/announce",
+  "udp://p4p.arenabg.com:1337/announce",
 ];
 
-const SUBTITLE_DOMAINS = ["yts-subs.com", "yifysubtitles.ch"];
-
 const SUBTITLE_LANGUAGES = [
   "English", "Arabic", "Spanish", "French", "German", "Portuguese",
   "Brazilian Portuguese", "Turkish", "Italian", "Dutch", "Polish",
@@ -100,7 +118,278 @@ const SUBTITLE_LANGUAGES = [
   "Urdu", "Vietnamese",
 ];
 
-interface Torrent {
+export interface Config {
+  downloadDir: string;
+  /** Where per-download state files live; defaults to `<downloadDir>/.downloads` */
+  stateDir: string;
+  /** Added to every magnet on top of trackers.txt */
+  trackers: string[];
+  /** Display order for subtitle languages */
+  subtitleLanguages: string[];
+  /** Subtitles fetched next to every finished download, by name ("English") or code ("en") */
+  autoSubtitles: string[];
+  pageSize: number;
+  /** Quality picked for one-click downloads (falls back to the best-seeded torrent) */
+  preferredQuality: string;
+  /** Give up on a torrent that has no metadata after this many seconds */
+  peerTimeoutSec: number;
+  /** Re-announce a download that has made no progress for this many minutes, 0 to never */
+  stallTimeoutMin: number;
+  /** Re-announces, each waiting twice as long as the last, before a download ends as stalled */
+  stallRetries: number;
+  /** Downloads running at once; the rest wait in the queue */
+  maxConcurrent: number;
+  /** Resume downloads interrupted by a crash or reboot without asking */
+  autoResume: boolean;
+  /** Total download rate across all downloads in KB/s, 0 for unlimited */
+  downloadLimit: number;
+  /** Total upload rate across all downloads in KB/s, 0 for unlimited */
+  uploadLimit: number;
+  /** Keep seeding a finished download until this upload ratio, 0 for no ratio target */
+  seedRatio: number;
+  /** Stop seeding after this many minutes, 0 for no time limit (both 0 = don't seed) */
+  seedTimeMin: number;
+  /** Command used to play streams, e.g. "mpv --fs"; empty tries mpv, then vlc */
+  player: string;
+  /** Move finished downloads into a media-server layout */
+  organize: boolean;
+  /** Library path for a finished movie, relative to downloadDir; see renderLibraryPath for tokens */
+  libraryTemplate: string;
+  /** Write a Kodi movie.nfo, poster and fanart next to finished movies */
+  writeNfo: boolean;
+  /** Folders scanned for the Library menu besides downloadDir */
+  libraryFolders: string[];
+  /** Registered provider name ("yts") or path to a provider module */
+  provider: string;
+  providerOptions: Record<string, any>;
+  mirrors: string[];
+  apiTimeoutMs: number;
+  apiRetries: number;
+  /** Seconds before a cached response is refetched */
+  cacheTtl: Record<"list" | "search" | "details" | "suggestions" | "poster", number>;
+  /** Serve everything from the cache, never hit the network */
+  offline: boolean;
+}
+
+export const DEFAULT_CONFIG: Config = {
+  downloadDir: join(homedir(), "Downloads", "Movizone"),
+  stateDir: "",
+  trackers: [],
+  subtitleLanguages: SUBTITLE_LANGUAGES,
+  autoSubtitles: [],
+  pageSize: 20,
+  preferredQuality: "1080p",
+  peerTimeoutSec: 30,
+  stallTimeoutMin: 5,
+  stallRetries: 3,
+  maxConcurrent: 2,
+  autoResume: false,
+  downloadLimit: 0,
+  uploadLimit: 0,
+  seedRatio: 0,
+  seedTimeMin: 0,
+  player: "",
+  organize: true,
+  libraryTemplate: "Movies/{title} ({year})/{title} ({year}) [{quality}]",
+  writeNfo: true,
+  libraryFolders: [],
+  provider: "yts",
+  providerOptions: {},
+  mirrors: API_MIRRORS,
+  apiTimeoutMs: 10000,
+  apiRetries: 2,
+  cacheTtl: {
+    list: 15 * 60,
+    search: 60 * 60,
+    details: 24 * 60 * 60,
+    suggestions: 24 * 60 * 60,
+    poster: 30 * 24 * 60 * 60,
+  },
+  offline: false,
+};
+
+type SettingType = "path" | "string" | "number" | "boolean" | "list";
+
+type SettingValue = string | number | boolean | string[];
+
+/** Config keys with a scalar or list value, the ones SETTINGS can describe */
+type SettingKey = { [K in keyof Config]: Config[K] extends SettingValue ? K : never }[keyof Config];
+
+interface SettingDef {
+  key: SettingKey;
+  type: SettingType;
+  label: string;
+  /** Smallest value that works, for numbers where 0 would stop things */
+  min?: number;
+}
+
+/** Scalar settings that can be overridden by env var, CLI flag, or the Settings menu */
+const SETTINGS: SettingDef[] = [
+  { key: "downloadDir", type: "path", label: "Download folder" },
+  { key: "stateDir", type: "path", label: "Download state folder" },
+  { key: "pageSize", type: "number", label: "Movies per page" },
+  { key: "preferredQuality", type: "string", label: "Preferred quality" },
+  { key: "peerTimeoutSec", type: "number", label: "Peer timeout (seconds)" },
+  { key: "stallTimeoutMin", type: "number", label: "Stall timeout (minutes, 0 = off)" },
+  { key: "stallRetries", type: "number", label: "Stall retries" },
+  { key: "maxConcurrent", type: "number", label: "Max concurrent downloads", min: 1 },
+  { key: "autoResume", type: "boolean", label: "Auto-resume interrupted downloads" },
+  { key: "downloadLimit", type: "number", label: "Download limit (KB/s, 0 = unlimited)" },
+  { key: "uploadLimit", type: "number", label: "Upload limit (KB/s, 0 = unlimited)" },
+  { key: "seedRatio", type: "number", label: "Seed until ratio (0 = no target)" },
+  { key: "seedTimeMin", type: "number", label: "Seed for at most (minutes, 0 = no limit)" },
+  { key: "player", type: "string", label: "Video player (empty = mpv, then vlc)" },
+  { key: "organize", type: "boolean", label: "Organize finished downloads" },
+  { key: "libraryTemplate", type: "path", label: "Library naming template" },
+  { key: "writeNfo", type: "boolean", label: "Write NFO and artwork" },
+  { key: "libraryFolders", type: "list", label: "Extra library folders" },
+  { key: "trackers", type: "list", label: "Extra trackers" },
+  { key: "subtitleLanguages", type: "list", label: "Subtitle language order" },
+  { key: "autoSubtitles", type: "list", label: "Subtitles fetched on completion" },
+  { key: "provider", type: "string", label: "Movie provider" },
+  { key: "mirrors", type: "list", label: "API mirrors" },
+  { key: "apiTimeoutMs", type: "number", label: "API timeout (ms)" },
+  { key: "apiRetries", type: "number", label: "API retries" },
+  { key: "offline", type: "boolean", label: "Offline mode" },
+];
+
+/** `downloadDir` → `download-dir` (CLI flag) */
+export function settingFlag(key: string): string {
+  return key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+}
+
+/** `downloadDir` → `MOVIZONE_DOWNLOAD_DIR` (env var) */
+export function settingEnvVar(key: string): string {
+  return "MOVIZONE_" + settingFlag(key).replace(/-/g, "_").toUpperCase();
+}
+
+export function parseSettingValue(type: SettingType, raw: string): SettingValue {
+  const value = raw.trim();
+  switch (type) {
+    case "path":
+      return value === "~" || value.startsWith("~/") ? join(homedir(), value.slice(1)) : value;
+    case "string":
+      return value;
+    case "number": {
+      const n = Number(value);
+      if (value === "" || !Number.isFinite(n) || n < 0) throw new Error(`Expected a non-negative number, got "${raw}"`);
+      return n;
+    }
+    case "boolean":
+      if (/^(1|true|yes|on)$/i.test(value)) return true;
+      if (/^(0|false|no|off)$/i.test(value)) return false;
+      throw new Error(`Expected true or false, got "${raw}"`);
+    case "list":
+      return value.split(/[,\n]/).map((v) => v.trim()).filter(Boolean);
+  }
+}
+
+/**
+ * Check a setting from the config file, an env var or a flag against its type.
+ * Strings are parsed as if typed in; JSON values must already be the right type.
+ */
+export function coerceSettingValue(type: SettingType, raw: unknown): SettingValue {
+  if (typeof raw === "string") return parseSettingValue(type, raw);
+  if (type === "boolean" && typeof raw === "boolean") return raw;
+  if (type === "number" && typeof raw === "number" && Number.isFinite(raw) && raw >= 0) return raw;
+  if (type === "list" && Array.isArray(raw) && raw.every((v) => typeof v === "string")) {
+    return raw.map((v: string) => v.trim()).filter(Boolean);
+  }
+  const expected = { path: "a path", string: "text", number: "a non-negative number", boolean: "true or false", list: "a list of text" }[type];
+  throw new Error(`Expected ${expected}, got ${JSON.stringify(raw) ?? "nothing"}`);
+}
+
+/** coerceSettingValue, then the setting's own lower bound */
+function checkSetting(setting: Pick<SettingDef, "type" | "min">, raw: unknown): SettingValue {
+  const value = coerceSettingValue(setting.type, raw);
+  if (setting.min !== undefined && typeof value === "number" && value < setting.min) {
+    throw new Error(`Expected at least ${setting.min}, got ${value}`);
+  }
+  return value;
+}
+
+/** Values are checked by checkSetting before they get here */
+function setSetting(target: Partial<Config>, key: SettingKey, value: SettingValue): void {
+  Object.assign(target, { [key]: value });
+}
+
+/**
+ * Apply `source` values (env vars or CLI flags, as named by `nameOf`) on top of
+ * `target`. Invalid values, including a bare flag for a setting that isn't
+ * true/false, are skipped and returned as error messages.
+ */
+export function applySettingOverrides(
+  target: Config,
+  source: Record<string, string | boolean | undefined>,
+  nameOf: (key: string) => string,
+  settings = SETTINGS,
+): string[] {
+  const errors: string[] = [];
+  for (const setting of settings) {
+    const raw = source[nameOf(setting.key)];
+    if (raw === undefined) continue;
+    try {
+      setSetting(target, setting.key, checkSetting(setting, raw));
+    } catch (err: any) {
+      errors.push(`Invalid ${nameOf(setting.key)}: ${err.message}`);
+    }
+  }
+  return errors;
+}
+
+let configPath = process.env.MOVIZONE_CONFIG || join(CONFIG_DIR, "config.json");
+
+/** Raw contents of the config file, kept so the Settings menu only writes what the user set */
+let fileConfig: Partial<Config> = {};
+
+/** Problems found while loading config, reported once the UI is up */
+let configErrors: string[] = [];
+
+function loadConfig(): Config {
+  configErrors = [];
+  try {
+    fileConfig = JSON.parse(readFileSync(configPath, "utf-8"));
+  } catch (err: any) {
+    fileConfig = {}; // No config file yet — defaults only
+    if (err.code !== "ENOENT") configErrors.push(`Ignoring ${configPath}: ${err.message}`);
+  }
+  const loaded: Config = {
+    ...DEFAULT_CONFIG,
+    ...fileConfig,
+    cacheTtl: { ...DEFAULT_CONFIG.cacheTtl, ...fileConfig.cacheTtl },
+  };
+  // Same parsing as env vars and flags, so "~/nas/movies" or "20" mean the same everywhere
+  for (const setting of SETTINGS) {
+    if (fileConfig[setting.key] === undefined) continue;
+    try {
+      setSetting(loaded, setting.key, checkSetting(setting, fileConfig[setting.key]));
+    } catch (err: any) {
+      setSetting(loaded, setting.key, DEFAULT_CONFIG[setting.key]);
+      configErrors.push(`Ignoring "${setting.key}" in ${configPath}: ${err.message}`);
+    }
+  }
+  configErrors.push(...applySettingOverrides(loaded, process.env, settingEnvVar));
+  return loaded;
+}
+
+async function saveConfigFile(): Promise<void> {
+  await mkdir(dirname(configPath), { recursive: true });
+  await Bun.write(configPath, JSON.stringify(fileConfig, null, 2) + "\n");
+}
+
+const config = loadConfig();
+
+function stateDir(): string {
+  return config.stateDir || join(config.downloadDir, ".downloads");
+}
+
+// --- API Layer ---
+
+const SUBTITLE_DOMAINS = ["yts-subs.com", "yifysubtitles.ch"];
+/** How long to wait before fetching a finished download's subtitles again after the sites or a download failed */
+const SUBTITLE_RETRY_MS = 60 * 60 * 1000;
+
+export interface Torrent {
   url: string;
   hash: string;
   quality: string;
@@ -121,7 +410,7 @@ export interface SubtitleEntry {
   downloadPath: string;
 }
 
-interface Movie {
+export interface Movie {
   id: number;
   title: string;
   title_long: string;
@@ -136,10 +425,15 @@ interface Movie {
   small_cover_image: string;
   medium_cover_image: string;
   large_cover_image: string;
+  /** Only in some responses; used for the NFO */
+  description_full?: string;
+  mpa_rating?: string;
+  background_image?: string;
+  background_image_original?: string;
   torrents: Torrent[];
 }
 
-interface ListResponse {
+export interface ListResponse {
   status: string;
   data: {
     movie_count: number;
@@ -147,46 +441,564 @@ interface ListResponse {
     page_number: number;
     movies: Movie[];
   };
+  /** Set when the response came from the on-disk cache */
+  cache?: CacheInfo;
+}
+
+interface DetailsResponse {
+  status: string;
+  data: {
+    movie: Movie;
+  };
 }
 
-async function apiGet(endpoint: string, params: Record<string, any> = {}): Promise<any> {
-  const url = new URL(`${API_BASE}/${endpoint}`);
+export interface MirrorHealth {
+  latencyMs?: number;
+  lastSuccess?: number;
+  lastFailure?: number;
+  lastError?: string;
+  /** Consecutive failures since the last success */
+  failures: number;
+}
+
+interface ApiOptions {
+  timeoutMs: number;
+  retries: number;
+}
+
+const MIRROR_HEALTH_PATH = join(STATE_HOME, "mirrors.json");
+const MIRROR_COOLDOWN = 5 * 60 * 1000;
+
+let mirrorHealth: Record<string, MirrorHealth> | null = null;
+
+function loadMirrorHealth(): Record<string, MirrorHealth> {
+  if (!mirrorHealth) {
+    try {
+      mirrorHealth = JSON.parse(readFileSync(MIRROR_HEALTH_PATH, "utf-8")) as Record<string, MirrorHealth>;
+    } catch {
+      mirrorHealth = {}; // First run or unreadable — start fresh
+    }
+  }
+  return mirrorHealth;
+}
+
+function recordMirrorResult(baseUrl: string, latencyMs: number | null, error?: string): void {
+  const health = loadMirrorHealth();
+  const entry = health[baseUrl] ?? { failures: 0 };
+  if (latencyMs !== null) {
+    entry.latencyMs = latencyMs;
+    entry.lastSuccess = Date.now();
+    entry.failures = 0;
+  } else {
+    entry.lastFailure = Date.now();
+    entry.lastError = error;
+    entry.failures++;
+  }
+  health[baseUrl] = entry;
+
+  // Written synchronously so the CLI's process.exit() can't drop it
+  try {
+    mkdirSync(STATE_HOME, { recursive: true });
+    writeFileSync(MIRROR_HEALTH_PATH, JSON.stringify(health, null, 2) + "\n");
+  } catch {}
+}
+
+/** Keep the configured order, but push mirrors that failed recently to the back */
+export function orderMirrors(mirrors: string[], health: Record<string, MirrorHealth>, now = Date.now()): string[] {
+  const coolingDown = (url: string) => {
+    const h = health[url];
+    return !!h?.lastFailure && h.failures > 0 && now - h.lastFailure < MIRROR_COOLDOWN;
+  };
+  return [...mirrors.filter((m) => !coolingDown(m)), ...mirrors.filter(coolingDown)];
+}
+
+export function backoffDelay(attempt: number, baseMs = 500, maxMs = 8000): number {
+  return Math.min(baseMs * 2 ** attempt, maxMs);
+}
+
+function buildApiUrl(baseUrl: string, endpoint: string, params: Record<string, any>): string {
+  const url = new URL(`${baseUrl}/${endpoint}`);
   for (const [key, value] of Object.entries(params)) {
     if (value !== undefined && value !== null && value !== "") {
       url.searchParams.set(key, String(value));
     }
   }
+  return url.toString();
+}
+
+/** A mirror's host for messages; the string as configured when it isn't a URL */
+function mirrorHost(baseUrl: string): string {
+  try {
+    return new URL(baseUrl).host || baseUrl;
+  } catch {
+    return baseUrl;
+  }
+}
+
+/**
+ * GET an endpoint from one mirror. A 4xx answer means the mirror is up but
+ * refuses the request, as any mirror would: it throws with `cause: "refused"`
+ * and doesn't count against the mirror's health.
+ */
+async function fetchMirror(baseUrl: string, endpoint: string, params: Record<string, any>, timeoutMs: number): Promise<any> {
+  const started = Date.now();
+  let res: Response;
+  try {
+    res = await fetch(buildApiUrl(baseUrl, endpoint, params), { signal: AbortSignal.timeout(timeoutMs) });
+    if (res.status >= 500) throw new Error(`API error: ${res.status}`);
+    if (res.ok) {
+      const data = await res.json();
+      recordMirrorResult(baseUrl, Date.now() - started);
+      return data;
+    }
+  } catch (err: any) {
+    const message = err?.name === "TimeoutError" ? `Timed out after ${timeoutMs / 1000}s` : err?.message || String(err);
+    recordMirrorResult(baseUrl, null, message);
+    throw new Error(message);
+  }
+  recordMirrorResult(baseUrl, Date.now() - started);
+  throw new Error(`API error: ${res.status}`, { cause: "refused" });
+}
+
+/** GET an endpoint, failing over between mirrors and retrying whole rounds with backoff */
+async function apiGet(mirrors: string[], endpoint: string, params: Record<string, any>, opts: ApiOptions): Promise<any> {
+  let lastError = "no mirrors configured";
+
+  for (let attempt = 0; attempt <= opts.retries; attempt++) {
+    if (attempt > 0) await Bun.sleep(backoffDelay(attempt - 1));
+
+    for (const baseUrl of orderMirrors(mirrors, loadMirrorHealth())) {
+      try {
+        return await fetchMirror(baseUrl, endpoint, params, opts.timeoutMs);
+      } catch (err: any) {
+        lastError = `${mirrorHost(baseUrl)}: ${err.message}`;
+        if (err.cause === "refused") throw new Error(lastError);
+      }
+    }
+  }
+
+  throw new Error(`API unreachable, all mirrors failed (${lastError})`);
+}
+
+// --- Movie Providers ---
+
+/** Filters accepted by MovieProvider.list — YTS parameter names, other providers translate them */
+export interface ListOptions {
+  sort_by?: string;
+  order_by?: "asc" | "desc";
+  genre?: string;
+  minimum_rating?: number;
+  query_term?: string;
+  limit?: number;
+}
+
+/** A movie catalog. Providers normalize their API into the YTS `ListResponse`/`Movie` shapes the UI renders. */
+export interface MovieProvider {
+  name: string;
+  list(page: number, opts?: ListOptions): Promise<ListResponse>;
+  search(query: string, page?: number, limit?: number): Promise<ListResponse>;
+  details(idOrImdb: string | number): Promise<Movie | null>;
+  suggestions(movieId: number): Promise<ListResponse>;
+}
+
+export type ProviderFactory = (options: Record<string, any>) => MovieProvider;
+
+export interface YtsProviderOptions {
+  /** Single base URL; shorthand for `mirrors: [baseUrl]` */
+  baseUrl?: string;
+  mirrors?: string[];
+  timeoutMs?: number;
+  retries?: number;
+}
+
+export function createYtsProvider(options: YtsProviderOptions = {}): MovieProvider {
+  const mirrors = options.baseUrl ? [options.baseUrl] : options.mirrors?.length ? options.mirrors : API_MIRRORS;
+  const apiOpts: ApiOptions = {
+    timeoutMs: options.timeoutMs ?? DEFAULT_CONFIG.apiTimeoutMs,
+    retries: options.retries ?? DEFAULT_CONFIG.apiRetries,
+  };
+  const get = (endpoint: string, params: Record<string, any>) => apiGet(mirrors, endpoint, params, apiOpts);
+
+  return {
+    name: "yts",
+    list: (page, opts = {}) =>
+      get("list_movies.json", { limit: 20, page, sort_by: "date_added", order_by: "desc", ...opts }),
+    search: (query, page = 1, limit = 20) => get("list_movies.json", { query_term: query, limit, page }),
+    async details(idOrImdb) {
+      const key = String(idOrImdb).trim();
+      const params = /^tt\d+$/i.test(key) ? { imdb_id: key } : { movie_id: key };
+      const res = await get("movie_details.json", params) as DetailsResponse;
+      return res.data?.movie?.id ? res.data.movie : null;
+    },
+    suggestions: (movieId) => get("movie_suggestions.json", { movie_id: movieId }),
+  };
+}
+
+const PROVIDERS = new Map<string, ProviderFactory>([["yts", createYtsProvider]]);
+
+export function registerProvider(name: string, factory: ProviderFactory): void {
+  PROVIDERS.set(name, factory);
+}
+
+/**
+ * Resolve a provider by registered name, or by path to a module whose default
+ * export is a ProviderFactory (for catalogs that speak their own JSON schema).
+ * A relative path is looked up next to the config file, then in the working
+ * directory.
+ */
+export async function resolveProvider(
+  name: string,
+  options: Record<string, any> = {},
+  baseDir = dirname(configPath),
+): Promise<MovieProvider> {
+  const factory = PROVIDERS.get(name);
+  if (factory) return factory(options);
+
+  if (/^[./~]/.test(name) || /\.[cm]?[jt]s$/.test(name)) {
+    const fromConfig = resolve(baseDir, name);
+    const modulePath = name.startsWith("~")
+      ? join(homedir(), name.slice(1))
+      : existsSync(fromConfig) ? fromConfig : resolve(name);
+    const mod = await import(modulePath);
+    if (typeof mod.default !== "function") {
+      throw new Error(`Provider module "${name}" must default-export a provider factory`);
+    }
+    return mod.default(options);
+  }
+
+  throw new Error(`Unknown movie provider "${name}" (available: ${[...PROVIDERS.keys()].join(", ")})`);
+}
+
+let activeProvider: Promise<MovieProvider> | null = null;
+
+function providerOptions(): Record<string, any> {
+  return {
+    mirrors: config.mirrors,
+    timeoutMs: config.apiTimeoutMs,
+    retries: config.apiRetries,
+    ...config.providerOptions,
+  };
+}
+
+function getProvider(): Promise<MovieProvider> {
+  if (!activeProvider) {
+    activeProvider = resolveProvider(config.provider, providerOptions());
+    activeProvider.catch(() => { activeProvider = null; });
+  }
+  return activeProvider;
+}
+
+// --- Response Cache ---
+
+type CacheKind = "list" | "search" | "details" | "suggestions" | "poster";
+
+export interface CacheInfo {
+  cachedAt: number;
+  /** Older than its TTL — served because we're offline or the network failed */
+  stale: boolean;
+}
+
+interface CacheEntry<T> {
+  key: string;
+  kind: CacheKind;
+  cachedAt: number;
+  data: T;
+}
+
+const CACHE_DIR = join(process.env.XDG_CACHE_HOME || join(homedir(), ".cache"), "movizone");
+const API_CACHE_DIR = join(CACHE_DIR, "api");
+const POSTER_CACHE_DIR = join(CACHE_DIR, "posters");
+
+export function isFresh(cachedAt: number, ttlSeconds: number, now = Date.now()): boolean {
+  return now - cachedAt < ttlSeconds * 1000;
+}
+
+function cacheFileName(key: string): string {
+  return new Bun.CryptoHasher("sha1").update(key).digest("hex");
+}
+
+async function readCache<T>(key: string): Promise<CacheEntry<T> | null> {
+  try {
+    return await Bun.file(join(API_CACHE_DIR, `${cacheFileName(key)}.json`)).json() as CacheEntry<T>;
+  } catch {
+    return null; // Not cached (or unreadable)
+  }
+}
+
+async function writeCache<T>(key: string, kind: CacheKind, data: T): Promise<void> {
+  const entry: CacheEntry<T> = { key, kind, cachedAt: Date.now(), data };
+  try {
+    await mkdir(API_CACHE_DIR, { recursive: true });
+    await Bun.write(join(API_CACHE_DIR, `${cacheFileName(key)}.json`), JSON.stringify(entry));
+  } catch {}
+}
+
+/**
+ * Serve from the cache while fresh, otherwise fetch and store. Falls back to
+ * stale entries when the fetch fails, and never touches the network offline.
+ */
+async function cachedCall<T>(kind: CacheKind, args: unknown[], fetcher: () => Promise<T>): Promise<{ data: T; cache?: CacheInfo }> {
+  const key = `${config.provider}:${kind}:${JSON.stringify(args)}`;
+  const entry = await readCache<T>(key);
+  const fresh = !!entry && isFresh(entry.cachedAt, config.cacheTtl[kind]);
+
+  if (entry && (fresh || config.offline)) {
+    return { data: entry.data, cache: { cachedAt: entry.cachedAt, stale: !fresh } };
+  }
+  if (config.offline) throw new Error("Not available offline (nothing cached for this yet)");
+
+  try {
+    const data = await fetcher();
+    await writeCache(key, kind, data);
+    return { data };
+  } catch (err) {
+    if (entry) return { data: entry.data, cache: { cachedAt: entry.cachedAt, stale: true } };
+    throw err;
+  }
+}
+
+async function cachedList(kind: CacheKind, args: unknown[], fetcher: () => Promise<ListResponse>): Promise<ListResponse> {
+  const { data, cache } = await cachedCall(kind, args, fetcher);
+  return cache ? { ...data, cache } : data;
+}
 
-  const res = await fetch(url.toString());
-  if (!res.ok) throw new Error(`API error: ${res.status}`);
-  return res.json();
+/** Every movie in cached list responses, for searching while offline */
+async function cachedMovies(): Promise<{ movies: Movie[]; oldest: number }> {
+  const movies = new Map<number, Movie>();
+  let oldest = Date.now();
+  let files: string[] = [];
+  try {
+    files = await readdir(API_CACHE_DIR);
+  } catch {}
+
+  for (const file of files) {
+    try {
+      const entry = await Bun.file(join(API_CACHE_DIR, file)).json() as CacheEntry<any>;
+      if (!entry.key.startsWith(`${config.provider}:`)) continue;
+      const found: Movie[] = entry.kind === "details" ? [entry.data].filter(Boolean) : entry.data?.data?.movies ?? [];
+      for (const m of found) movies.set(m.id, m);
+      if (found.length) oldest = Math.min(oldest, entry.cachedAt);
+    } catch {}
+  }
+  return { movies: [...movies.values()], oldest };
 }
 
-async function listMovies(page = 1, opts: Record<string, any> = {}): Promise<ListResponse> {
-  return apiGet("list_movies.json", { limit: 20, page, sort_by: "date_added", order_by: "desc", ...opts });
+async function listMovies(page = 1, opts: ListOptions = {}): Promise<ListResponse> {
+  const params = { limit: config.pageSize, ...opts };
+  return cachedList("list", [page, params], async () => (await getProvider()).list(page, params));
 }
 
 async function searchMovies(query: string, page = 1): Promise<ListResponse> {
-  return apiGet("list_movies.json", { query_term: query, limit: 20, page });
+  const limit = config.pageSize;
+  return cachedList("search", [query, page, limit], async () => (await getProvider()).search(query, page, limit));
 }
 
 async function getMovieSuggestions(movieId: number): Promise<ListResponse> {
-  return apiGet("movie_suggestions.json", { movie_id: movieId });
+  return cachedList("suggestions", [movieId], async () => (await getProvider()).suggestions(movieId));
 }
 
-export function buildMagnet(hash: string, title: string): string {
+/** Look up a single movie by catalog id or IMDb code (tt…), with where it came from when cached */
+async function getMovieDetails(idOrImdb: string | number): Promise<{ movie: Movie | null; cache?: CacheInfo }> {
+  const key = String(idOrImdb).trim().toLowerCase();
+  const { data, cache } = await cachedCall("details", [key], async () => (await getProvider()).details(idOrImdb));
+  return { movie: data, cache };
+}
+
+export function buildMagnet(hash: string, title: string, trackers = trackerStore.active(config.trackers)): string {
   const dn = encodeURIComponent(title);
-  const trackers = TRACKERS.map((t) => `&tr=${encodeURIComponent(t)}`).join("");
-  return `magnet:?xt=urn:btih:${hash}&dn=${dn}${trackers}`;
+  const tr = trackers.map((t) => `&tr=${encodeURIComponent(t)}`).join("");
+  return `magnet:?xt=urn:btih:${hash}&dn=${dn}${tr}`;
+}
+
+// --- Trackers ---
+
+export interface TrackerHealth {
+  lastSuccess?: number;
+  lastFailure?: number;
+  lastError?: string;
+  /** Consecutive failed announces since the last success */
+  failures: number;
+  /** Seeders and leechers the tracker knew of at its last answer */
+  peers?: number;
+  /** Time of the last helper report counted, so a report read twice counts once */
+  lastReport?: number;
+}
+
+export type TrackerStatus = "ok" | "failing" | "dead" | "untested";
+
+const TRACKER_LIST_PATH = join(CONFIG_DIR, "trackers.txt");
+const TRACKER_HEALTH_PATH = join(STATE_HOME, "trackers.json");
+/** Imported when no other list is given: trackers that answered recently, updated daily */
+const TRACKER_LIST_URL = "https://raw.githubusercontent.com/ngosang/trackerslist/master/trackers_best.txt";
+/** Consecutive failures after which a tracker is left out of new magnets */
+const TRACKER_DEAD_FAILURES = 5;
+/** A dead tracker is tried again after this long, in case it came back */
+const TRACKER_RETRY_AFTER = 7 * 24 * 60 * 60 * 1000;
+
+/** Announce URLs from a list file: one per line, blank lines and # comments skipped */
+export function parseTrackerList(text: string): string[] {
+  const urls = text.split("\n")
+    .map((line) => line.trim())
+    .filter((line) => /^(udp|https?|wss?):\/\/\S+$/i.test(line));
+  return [...new Set(urls)];
+}
+
+export function trackerStatus(health: TrackerHealth | undefined, now = Date.now()): TrackerStatus {
+  if (!health) return "untested";
+  if (health.failures === 0) return "ok";
+  if (health.failures >= TRACKER_DEAD_FAILURES && now - (health.lastFailure ?? 0) < TRACKER_RETRY_AFTER) return "dead";
+  return "failing";
+}
+
+/** Keep the list order, but leave dead trackers out and put failing ones last */
+export function rankTrackers(trackers: string[], health: Record<string, TrackerHealth>, now = Date.now()): string[] {
+  const status = (url: string) => trackerStatus(health[url], now);
+  return [
+    ...trackers.filter((t) => status(t) === "ok" || status(t) === "untested"),
+    ...trackers.filter((t) => status(t) === "failing"),
+  ];
+}
+
+/** The tracker list (trackers.txt) and how each tracker has been answering (trackers.json) */
+export class TrackerStore {
+  private trackers: string[] | null = null;
+  private healthData: Record<string, TrackerHealth> | null = null;
+
+  constructor(private listPath = TRACKER_LIST_PATH, private healthPath = TRACKER_HEALTH_PATH) {}
+
+  /** Read synchronously on first use: magnets are built from sync code */
+  list(): string[] {
+    if (!this.trackers) {
+      try {
+        this.trackers = parseTrackerList(readFileSync(this.listPath, "utf-8"));
+      } catch {
+        this.trackers = [...TRACKERS]; // No list yet — the file is written on the first change
+      }
+    }
+    return this.trackers;
+  }
+
+  health(): Record<string, TrackerHealth> {
+    if (!this.healthData) {
+      try {
+        this.healthData = JSON.parse(readFileSync(this.healthPath, "utf-8")) as Record<string, TrackerHealth>;
+      } catch {
+        this.healthData = {};
+      }
+    }
+    return this.healthData;
+  }
+
+  /** Trackers for a new magnet, `extra` ones after the list */
+  active(extra: string[] = [], now = Date.now()): string[] {
+    return rankTrackers([...new Set([...this.list(), ...extra])], this.health(), now);
+  }
+
+  /** Append trackers not already listed; returns the ones added */
+  add(urls: string[]): string[] {
+    const list = this.list();
+    const added = [...new Set(urls)].filter((url) => !list.includes(url));
+    if (added.length) this.save([...list, ...added]);
+    return added;
+  }
+
+  remove(urls: string[]): void {
+    this.save(this.list().filter((url) => !urls.includes(url)));
+  }
+
+  /** Drop trackers that have been dead for a while from the list; returns them */
+  prune(now = Date.now()): string[] {
+    const health = this.health();
+    const dead = this.list().filter((url) => trackerStatus(health[url], now) === "dead");
+    if (dead.length) this.remove(dead);
+    return dead;
+  }
+
+  /** Merge a tracker list from a URL or a file; returns the trackers added */
+  async import(source = TRACKER_LIST_URL): Promise<string[]> {
+    let text: string;
+    if (/^https?:\/\//i.test(source)) {
+      const res = await fetch(source, { signal: AbortSignal.timeout(config.apiTimeoutMs) });
+      if (!res.ok) throw new Error(`Tracker list request failed: HTTP ${res.status}`);
+      text = await res.text();
+    } else {
+      text = await Bun.file(source).text();
+    }
+    const urls = parseTrackerList(text);
+    if (!urls.length) throw new Error(`No tracker URLs in ${source}`);
+    return this.add(urls);
+  }
+
+  /**
+   * Count a helper's tracker report. One where no tracker answered says more
+   * about the network (offline, UDP blocked) than the trackers, so it's skipped
+   */
+  record(report: { at: number; results: TrackerResult[] }): void {
+    if (!report.results.some((result) => result.ok)) return;
+    const health = this.health();
+    let changed = false;
+    for (const result of report.results) {
+      const entry = health[result.url] ?? { failures: 0 };
+      if ((entry.lastReport ?? 0) >= report.at) continue;
+      entry.lastReport = report.at;
+      if (result.ok) {
+        entry.lastSuccess = report.at;
+        entry.failures = 0;
+        entry.peers = result.peers;
+      } else {
+        entry.lastFailure = report.at;
+        entry.lastError = result.error;
+        entry.failures++;
+      }
+      health[result.url] = entry;
+      changed = true;
+    }
+    if (!changed) return;
+
+    // Written synchronously so the CLI's process.exit() can't drop it
+    try {
+      mkdirSync(dirname(this.healthPath), { recursive: true });
+      writeFileSync(this.healthPath, JSON.stringify(health, null, 2) + "\n");
+    } catch {}
+  }
+
+  private save(list: string[]): void {
+    this.trackers = list;
+    mkdirSync(dirname(this.listPath), { recursive: true });
+    writeFileSync(this.listPath, "# One announce URL per line; movizone adds these to every magnet\n" + list.join("\n") + "\n");
+  }
 }
 
+const trackerStore = new TrackerStore();
+
 // --- Poster Image ---
 
-async function fetchPosterImage(url: string): Promise<string | null> {
+async function posterBytes(url: string): Promise<Uint8Array | null> {
+  const cachePath = join(POSTER_CACHE_DIR, cacheFileName(url));
+  const cached = Bun.file(cachePath);
+  const haveCached = await cached.exists();
+
+  if (haveCached && (config.offline || isFresh(cached.lastModified, config.cacheTtl.poster))) {
+    return new Uint8Array(await cached.arrayBuffer());
+  }
+  if (config.offline) return null;
+
   try {
     const res = await fetch(url);
-    if (!res.ok) return null;
+    if (!res.ok) throw new Error(`Poster error: ${res.status}`);
     const buffer = new Uint8Array(await res.arrayBuffer());
+    await mkdir(POSTER_CACHE_DIR, { recursive: true });
+    await Bun.write(cachePath, buffer);
+    return buffer;
+  } catch {
+    return haveCached ? new Uint8Array(await cached.arrayBuffer()) : null;
+  }
+}
+
+async function fetchPosterImage(url: string): Promise<string | null> {
+  try {
+    const buffer = await posterBytes(url);
+    if (!buffer) return null;
     return await terminalImage.buffer(buffer, { width: 30 });
   } catch {
     return null;
@@ -304,10 +1116,36 @@ async function tryCorrections(words: string[], wordIndex: number, maxAttempts =
   return [];
 }
 
-async function smartSearch(query: string): Promise<Movie[]> {
+/** Score and sort by fuzzy match + year bonus + rating tiebreaker */
+export function rankMovies(query: string, movies: Movie[], minMatch = 0): Movie[] {
+  const year = extractYear(query);
+  return movies
+    .map((m) => ({ movie: m, match: fuzzyScore(query, m.title) }))
+    .filter((s) => s.match >= minMatch)
+    .map((s) => ({
+      movie: s.movie,
+      score: s.match + (year && s.movie.year === year ? 20 : 0) + (s.movie.rating || 0) * 0.5,
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 20)
+    .map((s) => s.movie);
+}
+
+interface SearchResults {
+  movies: Movie[];
+  cache?: CacheInfo;
+}
+
+async function smartSearch(query: string): Promise<SearchResults> {
+  // Offline: rank everything we've browsed before instead of asking the API
+  if (config.offline) {
+    const { movies, oldest } = await cachedMovies();
+    return { movies: rankMovies(query, movies, 40), cache: { cachedAt: oldest, stale: true } };
+  }
+
   // First try exact API search
   const exact = await searchMovies(query);
-  if (exact.data.movies?.length) return exact.data.movies;
+  if (exact.data.movies?.length) return { movies: exact.data.movies, cache: exact.cache };
 
   // Extract year if present for filtering
   const year = extractYear(query);
@@ -319,9 +1157,9 @@ async function smartSearch(query: string): Promise<Movie[]> {
     if (noYear.data.movies?.length) {
       if (year) {
         const yearFiltered = noYear.data.movies.filter((m) => m.year === year);
-        if (yearFiltered.length) return yearFiltered;
+        if (yearFiltered.length) return { movies: yearFiltered, cache: noYear.cache };
       }
-      return noYear.data.movies;
+      return { movies: noYear.data.movies, cache: noYear.cache };
     }
   }
 
@@ -359,17 +1197,7 @@ async function smartSearch(query: string): Promise<Movie[]> {
     }
   }
 
-  if (!allResults.length) return [];
-
-  // Score and sort by fuzzy match + year bonus + rating tiebreaker
-  const scored = allResults
-    .map((m) => ({
-      movie: m,
-      score: fuzzyScore(query, m.title) + (year && m.year === year ? 20 : 0) + (m.rating || 0) * 0.5,
-    }))
-    .sort((a, b) => b.score - a.score);
-
-  return scored.slice(0, 20).map((s) => s.movie);
+  return { movies: rankMovies(query, allResults) };
 }
 
 // --- Download with WebTorrent (via Node.js subprocess) ---
@@ -396,47 +1224,400 @@ export function formatEta(ms: number): string {
   return `${m}m ${s}s`;
 }
 
-// --- Download Manager ---
+// --- Download History ---
 
-interface DownloadState {
+export interface HistoryEntry {
+  /** The download's id, unique per download */
   id: string;
-  pid?: number;
-  magnet?: string;
-  movieTitle: string;
+  title: string;
   quality: string;
-  status: "connecting" | "downloading" | "done" | "error" | "timeout";
-  progress: number;
-  downloaded: number;
-  total: number;
-  speed: number;
-  eta: number;
-  peers: number;
-  filePath?: string;
-  error?: string;
+  /** Info hash, to find the same torrent again */
+  hash?: string;
+  imdbCode?: string;
+  year?: number;
+  /** Bytes fetched: the full size when done, what got through otherwise */
+  bytes: number;
   startedAt?: number;
+  finishedAt: number;
+  /** Seconds from the first start to the end, pauses included */
+  duration?: number;
+  /** Bytes/s over `duration` */
+  averageSpeed?: number;
+  outcome: "done" | "failed" | "timeout" | "stalled" | "cancelled";
+  error?: string;
 }
 
-export class DownloadManager {
-  private downloads = new Map<string, DownloadState>();
-  private processes = new Map<string, import("node:child_process").ChildProcess>();
-  private idCounter = 0;
+export interface HistoryStats {
+  downloads: number;
+  completed: number;
+  /** Completed out of those that ended on their own (cancelled ones don't count), 0–1 */
+  successRate: number;
+  bytes: number;
+  /** Newest month first, as "2026-10" */
+  months: { month: string; bytes: number; downloads: number }[];
+}
 
-  private stateFilePath(id: string): string {
-    return join(STATE_DIR, `${id}.json`);
+export function historyStats(entries: HistoryEntry[]): HistoryStats {
+  const completed = entries.filter((e) => e.outcome === "done").length;
+  const attempted = entries.filter((e) => e.outcome !== "cancelled").length;
+  const months = new Map<string, { month: string; bytes: number; downloads: number }>();
+  for (const e of entries) {
+    const date = new Date(e.finishedAt);
+    const month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+    const total = months.get(month) ?? { month, bytes: 0, downloads: 0 };
+    total.bytes += e.bytes;
+    total.downloads++;
+    months.set(month, total);
+  }
+  return {
+    downloads: entries.length,
+    completed,
+    successRate: attempted ? completed / attempted : 0,
+    bytes: entries.reduce((sum, e) => sum + e.bytes, 0),
+    months: [...months.values()].sort((a, b) => b.month.localeCompare(a.month)),
+  };
+}
+
+const HISTORY_PATH = join(STATE_HOME, "history.jsonl");
+
+/** One entry per line; a line cut short by a crash is skipped rather than losing the rest */
+function parseHistory(text: string): HistoryEntry[] {
+  return text.split("\n").flatMap((line) => {
+    try {
+      return line.trim() ? [JSON.parse(line) as HistoryEntry] : [];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/** Every download that finished, failed or was cancelled, one JSON line each, never rewritten */
+export class DownloadHistory {
+  private entries: HistoryEntry[] = [];
+
+  constructor(private filePath = HISTORY_PATH) {}
+
+  async load(): Promise<void> {
+    let text: string;
+    try {
+      text = await Bun.file(this.filePath).text();
+    } catch {
+      return; // Nothing downloaded yet
+    }
+    this.entries = parseHistory(text);
+  }
+
+  /**
+   * Synchronous, like download state files: the CLI may exit right after.
+   * A download already in the file is skipped: the TUI and a cron
+   * `movizone downloads` can both see it finish before either saves `recorded`.
+   */
+  append(entry: HistoryEntry): void {
+    if (this.entries.some((e) => e.id === entry.id)) return;
+    let onDisk: HistoryEntry[] = [];
+    try {
+      onDisk = parseHistory(readFileSync(this.filePath, "utf-8"));
+    } catch {}
+    if (onDisk.some((e) => e.id === entry.id)) {
+      this.entries = onDisk;
+      return;
+    }
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    appendFileSync(this.filePath, JSON.stringify(entry) + "\n");
+    this.entries.push(entry);
+  }
+
+  /** Newest first, optionally only titles that loosely match `query` */
+  list(query = ""): HistoryEntry[] {
+    const entries = query.trim()
+      ? this.entries.filter((e) => fuzzyScore(query, e.title) >= 60 || e.imdbCode === query.trim())
+      : this.entries;
+    return [...entries].sort((a, b) => b.finishedAt - a.finishedAt);
+  }
+
+  /** Completed downloads of this torrent, or of this movie in any quality */
+  completed(hash?: string, imdbCode?: string): HistoryEntry[] {
+    return this.list().filter((e) =>
+      e.outcome === "done" && ((!!hash && e.hash === hash.toLowerCase()) || (!!imdbCode && e.imdbCode === imdbCode)));
+  }
+}
+
+const downloadHistory = new DownloadHistory();
+
+// --- Download Manager ---
+
+export type { TorrentFile };
+
+interface DownloadState {
+  id: string;
+  pid?: number;
+  magnet?: string;
+  /** Copy of the .torrent it was added from, handed to the helper instead of the magnet */
+  torrentFile?: string;
+  movieTitle: string;
+  quality: string;
+  status: "queued" | "connecting" | "downloading" | "paused" | "interrupted" | "seeding" | "done" | "error" | "timeout" | "stalled";
+  /** Queue order — lower starts first */
+  priority?: number;
+  /** Where the helper writes; pinned at first start so a resume finds its partial files */
+  downloadDir?: string;
+  /** Per-download cap in KB/s set from the downloads screen */
+  speedLimit?: number;
+  /** Cap the helper is running with in bytes/s, after sharing the global limit */
+  effectiveLimit?: number;
+  /** Stream requested: the helper downloads in order and serves the video over HTTP */
+  streaming?: boolean;
+  streamUrl?: string;
+  streamFile?: string;
+  /** Bytes on disk ahead of the player's read position */
+  bufferAhead?: number;
+  /** Files in the torrent, known once the helper has the metadata; `total` counts the selected ones */
+  files?: TorrentFile[];
+  /** Started with "choose files": the helper fetches nothing until a selection arrives */
+  pickFiles?: boolean;
+  /** Catalog details used to name the file in the library */
+  year?: number;
+  imdbCode?: string;
+  /** Set once the organizer has run, whether or not it succeeded */
+  organized?: boolean;
+  organizeError?: string;
+  /** Catalog record for the NFO, without its torrent list */
+  movie?: Movie;
+  /** Set once the NFO and artwork have been written, or failed to */
+  nfoWritten?: boolean;
+  nfoError?: string;
+  /** Torrent type ("bluray", "web"), to match subtitles to the release */
+  releaseType?: string;
+  /** Set once subtitles have been fetched for the configured languages, by language */
+  subtitles?: { fetched: string[]; missing: string[] };
+  subtitleError?: string;
+  /** When to try the missing subtitles again, after a site or download failed rather than had none */
+  subtitlesRetryAt?: number;
+  progress: number;
+  downloaded: number;
+  total: number;
+  speed: number;
+  eta: number;
+  peers: number;
+  filePath?: string;
+  error?: string;
+  /** Seeding stats, in bytes and bytes/s */
+  uploaded?: number;
+  uploadSpeed?: number;
+  ratio?: number;
+  seedingSince?: number;
+  queuedAt?: number;
+  startedAt?: number;
+  /** When the download completed, failed or was cancelled */
+  finishedAt?: number;
+  /** Set once the outcome is in the download history */
+  recorded?: boolean;
+  /** Times the helper re-announced a stalled download */
+  retries?: number;
+  /** How the trackers answered the helper's latest run */
+  trackerReport?: { at: number; results: TrackerResult[] };
+  /** Protocol version the helper announced */
+  protocol?: number;
+  /** Latest problem the helper reported that didn't stop the download */
+  warning?: string;
+}
+
+/** Failed for good: the helper gave up and won't be restarted on its own */
+function isFailed(status: DownloadState["status"]): boolean {
+  return status === "error" || status === "timeout" || status === "stalled";
+}
+
+/** Finished or failed; the helper has nothing left to do */
+function isTerminal(status: DownloadState["status"]): boolean {
+  return status === "done" || isFailed(status);
+}
+
+/** Copy what finishing a download (organizing, .nfo, subtitles, history) left on its state */
+function copyFinishFields(from: DownloadState, to: DownloadState): void {
+  to.filePath = from.filePath;
+  to.organized = from.organized;
+  to.organizeError = from.organizeError;
+  to.nfoWritten = from.nfoWritten;
+  to.nfoError = from.nfoError;
+  to.subtitles = from.subtitles;
+  to.subtitleError = from.subtitleError;
+  to.subtitlesRetryAt = from.subtitlesRetryAt;
+  to.recorded = from.recorded;
+}
+
+/**
+ * Share a global rate (KB/s) between downloads with their own caps (0 = none).
+ * Downloads capped below an equal share keep their cap and the rest is split
+ * among the others. Returns the cap for each download, 0 meaning unlimited.
+ */
+export function splitBandwidth(globalLimit: number, caps: number[]): number[] {
+  if (!globalLimit) return [...caps];
+
+  const order = caps.map((cap, i) => ({ cap: cap || Infinity, i })).sort((a, b) => a.cap - b.cap);
+  const shares = new Array<number>(caps.length).fill(0);
+  let remaining = globalLimit;
+  order.forEach(({ cap, i }, n) => {
+    const share = Math.min(cap, remaining / (order.length - n));
+    shares[i] = share;
+    remaining -= share;
+  });
+  return shares;
+}
+
+function selectedFileIndices(files: TorrentFile[]): number[] {
+  return files.flatMap((f, i) => (f.selected ? [i] : []));
+}
+
+interface DownloadManagerOptions {
+  /** Defaults to the configured state dir */
+  stateDir?: string;
+  /** Defaults to the configured maxConcurrent */
+  maxConcurrent?: number;
+  /** Defaults to the configured autoResume */
+  autoResume?: boolean;
+  /** Defaults to the configured organize */
+  organize?: boolean;
+  /** Defaults to the configured writeNfo */
+  writeNfo?: boolean;
+  /** Defaults to the configured autoSubtitles */
+  subtitles?: string[];
+  /** Defaults to the configured downloadDir */
+  downloadDir?: string;
+  /** Where finished downloads are recorded; nothing is recorded without one */
+  history?: DownloadHistory;
+  /** Where helpers' tracker results are recorded; ignored without one */
+  trackers?: TrackerStore;
+}
+
+/** What `preflight` found out about a download before it is queued */
+interface Preflight {
+  /** A download of the same torrent already in the list */
+  duplicate?: DownloadState;
+  /** The movie's video, already on disk from a finished duplicate or an earlier download */
+  existingFile?: string;
+  /** Free space on the download disk; undefined when it can't be read */
+  freeBytes?: number;
+  /** This torrent plus what unfinished downloads into the same folder still need */
+  neededBytes: number;
+}
+
+interface StartDownloadOptions {
+  /** Start now regardless of the queue, downloading in playback order */
+  stream?: boolean;
+  /** Fetch only the file list until the user picks files */
+  pickFiles?: boolean;
+  /** Catalog record the download came from */
+  movie?: Movie;
+  /** .torrent the download was added from; a copy is kept with the state file */
+  torrentFile?: string;
+}
+
+export class DownloadManager {
+  private downloads = new Map<string, DownloadState>();
+  private processes = new Map<string, import("node:child_process").ChildProcess>();
+  private idCounter = 0;
+  /** Last control file contents per download, to skip rewriting unchanged limits */
+  private lastControl = new Map<string, string>();
+  /** Pause/shutdown requests waiting for their helper to exit */
+  private commands = new Map<string, HelperCommand>();
+  private finishing = new Set<string>();
+
+  constructor(private options: DownloadManagerOptions = {}) {}
+
+  private get dir(): string {
+    return this.options.stateDir ?? stateDir();
+  }
+
+  private get maxConcurrent(): number {
+    return this.options.maxConcurrent ?? config.maxConcurrent;
+  }
+
+  private get autoResume(): boolean {
+    return this.options.autoResume ?? config.autoResume;
+  }
+
+  private get organize(): boolean {
+    return this.options.organize ?? config.organize;
+  }
+
+  private get writeNfo(): boolean {
+    return this.options.writeNfo ?? config.writeNfo;
+  }
+
+  private get subtitleLanguages(): string[] {
+    return this.options.subtitles ?? config.autoSubtitles;
+  }
+
+  private get downloadDir(): string {
+    return this.options.downloadDir ?? config.downloadDir;
+  }
+
+  private stateFilePath(id: string): string {
+    return join(this.dir, `${id}.json`);
   }
 
   private writeState(state: DownloadState): void {
-    Bun.write(this.stateFilePath(state.id), JSON.stringify(state) + "\n");
+    // Synchronous: queued downloads only exist in this file, and the CLI exits right after queueing.
+    // Renamed into place so other processes never read it half-written
+    const path = this.stateFilePath(state.id);
+    const tmp = `${path}.${process.pid}.tmp`;
+    try {
+      writeFileSync(tmp, JSON.stringify(state) + "\n");
+      renameSync(tmp, path);
+    } catch {}
   }
 
   private deleteStateFile(id: string): void {
     unlink(this.stateFilePath(id)).catch(() => {});
+    unlink(this.controlFilePath(id)).catch(() => {});
+    unlink(join(this.dir, `${id}.torrent`)).catch(() => {});
+    this.lastControl.delete(id);
+  }
+
+  private controlFilePath(id: string): string {
+    return join(this.dir, `${id}.control`);
+  }
+
+  /** The state file as another movizone process may have left it; undefined if unreadable */
+  private readStateFile(id: string): DownloadState | undefined {
+    try {
+      return JSON.parse(readFileSync(this.stateFilePath(id), "utf-8")) as DownloadState;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Take a download's lock file, so that of the movizone processes sharing the
+   * state dir (the TUI, a cron `movizone downloads`) only one acts on it.
+   * Returns the release function, or undefined while a live process (this one
+   * included) holds it. A lock left by a dead process is taken over.
+   */
+  private lock(id: string): (() => void) | undefined {
+    const path = join(this.dir, `${id}.lock`);
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        writeFileSync(path, String(process.pid), { flag: "wx" }); // Fails if it exists, atomically
+        return () => {
+          try { unlinkSync(path); } catch {}
+        };
+      } catch (err: any) {
+        if (err.code !== "EEXIST") return () => {}; // Can't lock here at all; carry on as before locks
+      }
+      let holder = 0;
+      try {
+        holder = Number(readFileSync(path, "utf-8"));
+      } catch {}
+      if (holder && isAlive(holder)) return undefined;
+      try { unlinkSync(path); } catch {}
+    }
+    return undefined;
   }
 
   async loadDownloads(): Promise<void> {
     let files: string[];
     try {
-      files = await readdir(STATE_DIR);
+      files = await readdir(this.dir);
     } catch {
       return; // Directory doesn't exist yet — no prior downloads
     }
@@ -448,40 +1629,39 @@ export class DownloadManager {
       if (!file.endsWith(".json")) continue;
 
       try {
-        const data = await Bun.file(join(STATE_DIR, file)).json();
+        const data = await Bun.file(join(this.dir, file)).json();
         const state = data as DownloadState;
         if (!state.id || this.downloads.has(state.id)) continue;
 
-        const isTerminal = state.status === "done" || state.status === "error" || state.status === "timeout";
-
-        // Auto-clean terminal states older than 24h
-        if (isTerminal && state.startedAt && (now - state.startedAt) > ONE_DAY) {
+        // Auto-clean terminal states older than 24h, once organized and the rest (finishDownloads, below)
+        const since = state.startedAt ?? state.queuedAt;
+        if (isTerminal(state.status) && since && (now - since) > ONE_DAY && !this.finishSteps(state)) {
+          this.record(state);
           this.deleteStateFile(state.id);
           continue;
         }
 
+        if (state.trackerReport) this.options.trackers?.record(state.trackerReport);
+
         // For active downloads, check if the process is still alive
-        if (!isTerminal && state.pid) {
-          try {
-            process.kill(state.pid, 0);
-            // Process is alive — re-read state file for latest progress
-          } catch {
-            // Process is dead
-            state.status = "error";
-            state.error = "Process ended unexpectedly";
-            this.writeState(state);
-          }
+        if (!isTerminal(state.status) && state.pid && !isAlive(state.pid)) {
+          this.markInterrupted(state);
+          if (this.autoResume && state.status === "interrupted") this.requeue(state);
         }
 
         this.downloads.set(state.id, state);
       } catch {}
     }
+
+    this.processQueue();
+    await this.finishDownloads();
   }
 
   /** Re-read state files for downloads without a live stdout connection (previous sessions) */
   async refreshOrphaned(): Promise<void> {
     for (const [id, state] of this.downloads) {
       if (this.processes.has(id)) continue; // current session, has live stdout
+      if (this.finishing.has(id)) continue; // we're organizing it and will write the file
 
       const filePath = this.stateFilePath(id);
       try {
@@ -495,51 +1675,364 @@ export class DownloadManager {
         state.speed = fresh.speed;
         state.eta = fresh.eta;
         state.peers = fresh.peers;
-        state.filePath = fresh.filePath;
         state.error = fresh.error;
+        state.uploaded = fresh.uploaded;
+        state.uploadSpeed = fresh.uploadSpeed;
+        state.ratio = fresh.ratio;
+        state.seedingSince = fresh.seedingSince;
+        state.streamUrl = fresh.streamUrl;
+        state.streamFile = fresh.streamFile;
+        state.bufferAhead = fresh.bufferAhead;
+        state.files = fresh.files;
+        state.warning = fresh.warning;
+        state.retries = fresh.retries;
+        state.trackerReport = fresh.trackerReport;
+        copyFinishFields(fresh, state); // Another process may have organized or recorded it
+        if (state.trackerReport) this.options.trackers?.record(state.trackerReport);
 
         // Check if process died since last refresh
-        const isTerminal = state.status === "done" || state.status === "error" || state.status === "timeout";
-        if (!isTerminal && state.pid) {
-          try {
-            process.kill(state.pid, 0);
-          } catch {
-            state.status = "error";
-            state.error = "Process ended unexpectedly";
-            this.writeState(state);
-          }
+        if (!isTerminal(state.status) && state.pid && !isAlive(state.pid)) {
+          this.markInterrupted(state);
         }
       } catch {}
     }
+
+    // Finished downloads from previous sessions free up slots
+    this.processQueue();
+    await this.finishDownloads();
   }
 
-  startDownload(magnet: string, movieTitle: string, torrentInfo?: Torrent): string {
-    const id = `${Date.now()}-${++this.idCounter}`;
-    const scriptDir = dirname(fileURLToPath(import.meta.url));
-    const helperPath = join(scriptDir, "download.mjs");
+  /**
+   * Move finished downloads into the library, write their NFO and artwork,
+   * fetch their subtitles, and record every outcome in the history, once the
+   * helper (seeding or streaming) has exited and can no longer rewrite the
+   * state file
+   */
+  async finishDownloads(): Promise<void> {
+    for (const state of this.getDownloads()) {
+      if (this.finishing.has(state.id)) continue;
+      if (this.processes.has(state.id) || (state.pid && isAlive(state.pid))) continue;
+      if (!this.finishSteps(state)) {
+        this.record(state);
+        continue;
+      }
+
+      // Moving a big file to a NAS takes minutes; another process must not start on it meanwhile
+      const release = this.lock(state.id);
+      if (!release) continue;
+      this.finishing.add(state.id);
+      try {
+        const fresh = this.readStateFile(state.id);
+        if (fresh) copyFinishFields(fresh, state); // It may have finished it since we last looked
+        await this.finish(state);
+      } finally {
+        this.finishing.delete(state.id);
+        release();
+      }
+    }
+  }
+
+  /** What finishDownloads still has to do for a download; undefined when nothing */
+  private finishSteps(state: DownloadState): { organize: boolean; nfo: boolean; subtitles: boolean } | undefined {
+    const organize = state.status === "done" && this.organize && !state.organized;
+    const nfo = state.status === "done" && this.writeNfo && !!state.movie && !state.nfoWritten;
+    const subtitlesDue = !state.subtitles || (state.subtitlesRetryAt !== undefined && Date.now() >= state.subtitlesRetryAt);
+    const subtitles = state.status === "done" && this.subtitleLanguages.length > 0 && !config.offline && subtitlesDue;
+    return organize || nfo || subtitles ? { organize, nfo, subtitles } : undefined;
+  }
+
+  private async finish(state: DownloadState): Promise<void> {
+    const steps = this.finishSteps(state);
+    if (!steps) return this.record(state);
+    const { organize, nfo, subtitles } = steps;
+    if (organize) {
+      try {
+        state.filePath = await organizeDownload(state);
+      } catch (err: any) {
+        state.organizeError = err.message;
+      }
+      state.organized = true;
+    }
+    if (nfo) {
+      try {
+        await writeMovieMetadata(state);
+      } catch (err: any) {
+        state.nfoError = err.message;
+      }
+      state.nfoWritten = true;
+    }
+    if (subtitles) {
+      const languages = this.subtitleLanguages;
+      state.subtitleError = undefined;
+      state.subtitlesRetryAt = undefined;
+      try {
+        const { failed, ...result } = await fetchDownloadSubtitles(state, languages);
+        state.subtitles = result;
+        if (failed.length) {
+          state.subtitleError = `Couldn't download ${failed.join(", ")}`;
+          state.subtitlesRetryAt = Date.now() + SUBTITLE_RETRY_MS;
+        }
+      } catch (err: any) {
+        state.subtitles ??= { fetched: [], missing: [...languages] };
+        state.subtitleError = err.message;
+        state.subtitlesRetryAt = Date.now() + SUBTITLE_RETRY_MS;
+      }
+    }
+    this.writeState(state);
+    this.record(state);
+  }
+
+  /** Look for a finished download's missing subtitles again now, rather than at its next retry */
+  async fetchMissingSubtitles(id: string): Promise<void> {
+    const state = this.downloads.get(id);
+    if (!state?.subtitles) return;
+    state.subtitlesRetryAt = Date.now();
+    this.writeState(state);
+    await this.finishDownloads();
+  }
+
+  /** Append a finished, failed or cancelled download to the history, once */
+  private record(state: DownloadState): void {
+    const history = this.options.history;
+    if (!history || state.recorded) return;
+    if (!isTerminal(state.status)) return;
+
+    const finishedAt = state.finishedAt ?? Date.now(); // Unknown for helpers that finished while we weren't watching
+    const bytes = state.status === "done" ? state.total || state.downloaded : state.downloaded;
+    const duration = state.startedAt ? Math.max(0, Math.round((finishedAt - state.startedAt) / 1000)) : undefined;
+    history.append({
+      id: state.id,
+      title: state.movieTitle,
+      quality: state.quality,
+      hash: state.magnet && infoHash(state.magnet),
+      imdbCode: state.imdbCode,
+      year: state.year,
+      bytes,
+      startedAt: state.startedAt,
+      finishedAt,
+      duration,
+      averageSpeed: duration ? Math.round(bytes / duration) : undefined,
+      outcome: state.status === "done" ? "done"
+        : state.status === "timeout" || state.status === "stalled" ? state.status
+        : state.error === "Cancelled" ? "cancelled"
+        : "failed",
+      error: state.status === "done" ? undefined : state.error,
+    });
+    state.finishedAt = finishedAt;
+    state.recorded = true;
+    this.writeState(state);
+  }
+
+  /** Look for duplicates and check disk space before `startDownload`; nothing is queued */
+  async preflight(magnet: string, movieTitle: string, torrentInfo?: Torrent, movie?: Movie): Promise<Preflight> {
+    const dir = resolve(this.downloadDir);
+    const hash = infoHash(magnet);
+    let duplicate: DownloadState | undefined;
+    let existingFile: string | undefined;
+
+    for (const state of this.getDownloads()) {
+      if (!hash || !state.magnet || infoHash(state.magnet) !== hash) continue;
+      if (state.status !== "done") {
+        duplicate = state;
+        continue;
+      }
+      const video = state.filePath && findMainVideo(await listFiles(state.filePath).catch(() => []));
+      if (video) { // A finished download whose file was since deleted is no duplicate
+        duplicate = state;
+        existingFile = video.path;
+      }
+    }
+    existingFile ??= await findMovieOnDisk(dir, { title: movieTitle, year: movie?.year, quality: torrentInfo?.quality });
+
+    let neededBytes = torrentInfo?.size_bytes ?? 0;
+    for (const state of this.getDownloads()) {
+      const pending = ["queued", "connecting", "downloading", "paused", "interrupted"].includes(state.status);
+      if (pending && resolve(state.downloadDir ?? this.downloadDir) === dir) {
+        neededBytes += Math.max(0, state.total - state.downloaded);
+      }
+    }
+
+    return { duplicate, existingFile, freeBytes: await freeSpace(dir), neededBytes };
+  }
 
-    mkdirSync(STATE_DIR, { recursive: true });
+  /** Queue a download; it starts right away if a slot is free, or regardless when streaming */
+  startDownload(magnet: string, movieTitle: string, torrentInfo?: Torrent, opts: StartDownloadOptions = {}): string {
+    const id = `${Date.now()}-${++this.idCounter}`;
 
-    const stateFile = this.stateFilePath(id);
+    mkdirSync(this.dir, { recursive: true });
 
     const state: DownloadState = {
       id,
       magnet,
       movieTitle,
       quality: torrentInfo?.quality || "unknown",
-      status: "connecting",
+      releaseType: torrentInfo?.type || undefined,
+      status: "queued",
+      priority: this.nextPriority(),
       progress: 0,
       downloaded: 0,
       total: torrentInfo?.size_bytes || 0,
       speed: 0,
       eta: 0,
       peers: 0,
-      startedAt: Date.now(),
+      queuedAt: Date.now(),
+      streaming: opts.stream || undefined,
+      pickFiles: opts.pickFiles || undefined,
+      year: opts.movie?.year,
+      imdbCode: opts.movie?.imdb_code,
+      movie: opts.movie && { ...opts.movie, torrents: [] },
     };
+    if (opts.torrentFile) {
+      // The original may be a download that gets cleaned up before a resume needs it
+      state.torrentFile = join(this.dir, `${id}.torrent`);
+      copyFileSync(opts.torrentFile, state.torrentFile);
+    }
     this.downloads.set(id, state);
     this.writeState(state);
 
-    const child = nodeSpawn("node", [helperPath, magnet, DOWNLOAD_DIR, stateFile], {
+    if (opts.stream) this.spawnHelper(state); // Someone is waiting to watch, skip the queue
+    this.processQueue();
+    return id;
+  }
+
+  /** Download only the files at `indices`; a running helper switches within a second */
+  setFileSelection(id: string, indices: number[]): void {
+    const state = this.downloads.get(id);
+    if (!state?.files || !indices.length) return;
+
+    state.files = state.files.map((f, i) => ({ ...f, selected: indices.includes(i) }));
+    state.pickFiles = undefined;
+    state.total = state.files.reduce((sum, f) => sum + (f.selected ? f.length : 0), 0);
+    this.writeState(state);
+    this.syncControl();
+  }
+
+  /** Switch a download to streaming, starting it now if it isn't running */
+  streamDownload(id: string): void {
+    const state = this.downloads.get(id);
+    if (!state?.magnet) return;
+    state.streaming = true;
+
+    if (state.status === "queued" || state.status === "paused" || state.status === "interrupted") {
+      state.error = undefined;
+      this.spawnHelper(state);
+    } else {
+      this.writeState(state);
+    }
+    this.syncControl();
+  }
+
+  /** Resolve with the stream URL once the helper serves it, or undefined if the download fails first */
+  async waitForStream(id: string, timeoutMs = 90_000): Promise<string | undefined> {
+    return this.waitFor(id, (state) => state.streamUrl, timeoutMs);
+  }
+
+  /** Resolve with the torrent's file list once the helper has the metadata */
+  async waitForFiles(id: string, timeoutMs = 90_000): Promise<TorrentFile[] | undefined> {
+    return this.waitFor(id, (state) => state.files, timeoutMs);
+  }
+
+  private async waitFor<T>(id: string, check: (state: DownloadState) => T | undefined, timeoutMs: number): Promise<T | undefined> {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      const state = this.downloads.get(id);
+      if (!state || isFailed(state.status) || state.status === "interrupted") return undefined;
+      const value = check(state);
+      if (value !== undefined) return value;
+      await Bun.sleep(500);
+      await this.refreshOrphaned();
+    }
+    return undefined;
+  }
+
+  /** Start queued downloads in priority order until maxConcurrent are running */
+  processQueue(): void {
+    for (const state of this.getQueued()) {
+      if (this.getActive().length >= this.maxConcurrent) break;
+      this.startQueued(state);
+    }
+    this.syncControl();
+  }
+
+  /** Start a queued download unless another movizone process sharing the state dir already did */
+  private startQueued(state: DownloadState): void {
+    const release = this.lock(state.id);
+    if (!release) return;
+    try {
+      const fresh = this.readStateFile(state.id);
+      if (!fresh) return; // Cancelled elsewhere, or unreadable for now; don't start it blind
+      if (fresh.status !== "queued") {
+        Object.assign(state, fresh); // Watched from its state file from now on, like after a restart
+        return;
+      }
+      this.spawnHelper(state);
+    } finally {
+      release();
+    }
+  }
+
+  /** Re-split the global limits over the running downloads and hand them, with stream requests, to their helpers */
+  syncControl(): void {
+    // Seeders only upload, so they share the upload limit but not the download one
+    const active = this.getActive();
+    const running = [...active, ...this.getSeeding()];
+    const down = splitBandwidth(config.downloadLimit, active.map((d) => d.speedLimit ?? 0));
+    const up = splitBandwidth(config.uploadLimit, running.map(() => 0));
+
+    running.forEach((state, i) => {
+      const toBytes = (kbps: number) => (kbps > 0 ? Math.round(kbps * 1024) : -1);
+      const control: HelperControl = {
+        version: PROTOCOL_VERSION,
+        downloadLimit: toBytes(down[i] ?? 0),
+        uploadLimit: toBytes(up[i]!),
+        speedLimit: state.speedLimit,
+        stream: state.streaming,
+        files: state.files && !state.pickFiles ? selectedFileIndices(state.files) : undefined,
+        command: this.commands.get(state.id),
+      };
+      state.effectiveLimit = control.downloadLimit >= 0 ? control.downloadLimit : undefined;
+
+      const json = encodeControl(control);
+      if (this.lastControl.get(state.id) === json) return;
+      try {
+        writeFileSync(this.controlFilePath(state.id), json);
+        this.lastControl.set(state.id, json);
+      } catch {}
+    });
+  }
+
+  /** Cap one download in KB/s (0 to lift the cap); running helpers pick it up within a second */
+  setSpeedLimit(id: string, kbps: number): void {
+    const state = this.downloads.get(id);
+    if (!state) return;
+    state.speedLimit = kbps > 0 ? kbps : undefined;
+    this.writeState(state);
+    this.syncControl();
+  }
+
+  private spawnHelper(state: DownloadState): void {
+    const scriptDir = dirname(fileURLToPath(import.meta.url));
+    const helperPath = join(scriptDir, "download.mjs");
+    const stateFile = this.stateFilePath(state.id);
+
+    state.status = "connecting";
+    state.startedAt ??= Date.now();
+    state.downloadDir ??= this.downloadDir;
+    state.warning = undefined;
+    this.writeState(state);
+
+    this.syncControl(); // Write the control file before the helper reads it
+    const helperOptions = {
+      peerTimeoutSec: config.peerTimeoutSec,
+      stallTimeoutMin: config.stallTimeoutMin,
+      stallRetries: config.stallRetries,
+      seedRatio: config.seedRatio,
+      seedTimeMin: config.seedTimeMin,
+      pickFiles: state.pickFiles,
+      controlFile: this.controlFilePath(state.id),
+      protocol: PROTOCOL_VERSION,
+    };
+    const child = nodeSpawn("node", [helperPath, state.torrentFile ?? state.magnet!, state.downloadDir, stateFile, JSON.stringify(helperOptions)], {
       stdio: ["ignore", "pipe", "ignore"],
       detached: true,
     });
@@ -548,17 +2041,41 @@ export class DownloadManager {
     state.pid = child.pid;
     this.writeState(state);
 
-    this.processes.set(id, child);
+    this.processes.set(state.id, child);
 
     // Start reading output in background (no await)
-    this.readOutput(id, child);
+    this.readOutput(state.id, child);
+  }
 
-    return id;
+  private nextPriority(): number {
+    return Math.max(0, ...this.getDownloads().map((d) => d.priority ?? 0)) + 1;
+  }
+
+  /** Move a queued download within the queue and renumber priorities */
+  moveInQueue(id: string, to: "top" | "up" | "down" | "bottom"): void {
+    const queue = this.getQueued();
+    const from = queue.findIndex((d) => d.id === id);
+    if (from === -1) return;
+
+    const [item] = queue.splice(from, 1);
+    const target = to === "top" ? 0
+      : to === "bottom" ? queue.length
+      : to === "up" ? Math.max(0, from - 1)
+      : Math.min(queue.length, from + 1);
+    queue.splice(target, 0, item!);
+
+    queue.forEach((d, i) => {
+      d.priority = i + 1;
+      this.writeState(d);
+    });
   }
 
   private readOutput(id: string, child: import("node:child_process").ChildProcess): void {
     const state = this.downloads.get(id)!;
     let buffer = "";
+    let greeted = false;
+    // Asked to exit by another session, which records what the download becomes
+    let stopped = false;
 
     child.stdout!.on("data", (chunk: Buffer) => {
       buffer += chunk.toString();
@@ -567,42 +2084,40 @@ export class DownloadManager {
 
       for (const line of lines) {
         if (!line.trim()) continue;
+        let msg: HelperMessage;
         try {
-          const msg = JSON.parse(line);
-
-          if (msg.type === "meta") {
-            state.total = msg.size;
-            state.status = "downloading";
-          } else if (msg.type === "progress") {
-            state.status = "downloading";
-            state.progress = msg.progress;
-            state.downloaded = msg.downloaded;
-            state.total = msg.total;
-            state.speed = msg.speed;
-            state.eta = msg.eta;
-            state.peers = msg.peers;
-          } else if (msg.type === "done") {
-            state.status = "done";
-            state.progress = 1;
-            state.filePath = msg.path;
-          } else if (msg.type === "error") {
+          msg = parseMessage(line);
+        } catch (err: any) {
+          state.warning = err.message;
+          continue;
+        }
+
+        // The helper introduces itself first; only its own startup errors may come before
+        if (!greeted && msg.type !== "error") {
+          if (msg.type !== "hello" || msg.version !== PROTOCOL_VERSION) {
+            const version = msg.type === "hello" ? `v${msg.version}` : "an older version";
             state.status = "error";
-            state.error = msg.message;
-          } else if (msg.type === "timeout") {
-            state.status = "timeout";
-            state.error = "Could not connect to peers";
+            state.error = `Download helper speaks protocol ${version}, expected v${PROTOCOL_VERSION}`;
+            state.finishedAt = Date.now();
+            this.writeState(state);
+            child.kill();
+            return;
           }
-        } catch {}
+          greeted = true;
+        }
+        if (msg.type === "stopped") stopped = true;
+        if (msg.type === "trackers") this.options.trackers?.record(msg);
+        applyMessage(state, msg);
       }
     });
 
     child.on("close", () => {
-      if (state.status === "connecting" || state.status === "downloading") {
-        state.status = "error";
-        state.error = "Process ended unexpectedly";
-        this.writeState(state);
+      if (!stopped && (state.status === "connecting" || state.status === "downloading" || state.status === "seeding")) {
+        this.markInterrupted(state);
       }
       this.processes.delete(id);
+      this.processQueue();
+      this.finishDownloads().catch(() => {});
     });
   }
 
@@ -614,62 +2129,328 @@ export class DownloadManager {
     return this.getDownloads().filter((d) => d.status === "connecting" || d.status === "downloading");
   }
 
-  cancelDownload(id: string): void {
+  /** Queued downloads in the order they will start */
+  getQueued(): DownloadState[] {
+    return this.getDownloads()
+      .filter((d) => d.status === "queued")
+      .sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0));
+  }
+
+  /** Stop the helper but keep the partial files, so resuming only fetches missing pieces */
+  async pauseDownload(id: string): Promise<void> {
     const state = this.downloads.get(id);
+    if (!state || (state.status !== "connecting" && state.status !== "downloading")) return;
 
-    // Kill via live child process handle (current session)
-    const child = this.processes.get(id);
+    await this.stopHelper(state, "pause");
+    state.status = "paused";
+    state.speed = 0;
+    state.eta = 0;
+    state.peers = 0;
+    this.writeState(state);
+    this.processQueue();
+  }
+
+  /**
+   * Stop a helper we are about to record a new state for: ask through the
+   * control file, then signal it if it hasn't exited within a few seconds
+   */
+  private async stopHelper(state: DownloadState, action: HelperCommand["action"]): Promise<void> {
+    const pid = state.pid;
+    const child = this.processes.get(state.id);
     if (child) {
-      child.kill();
-      this.processes.delete(id);
-    } else if (state?.pid) {
-      // Kill via PID (previous session's detached process)
-      try { process.kill(state.pid); } catch {}
+      // Stop listening first, or the close handler would flag the exit as a crash
+      child.stdout?.removeAllListeners("data");
+      child.removeAllListeners("close");
+      this.processes.delete(state.id);
+    }
+    if (pid) {
+      this.commands.set(state.id, { action, at: Date.now() });
+      this.syncControl();
+      // Wait for the helper to exit so its last state write can't land after ours
+      for (let i = 0; i < 30 && isAlive(pid); i++) await Bun.sleep(100);
+      if (isAlive(pid)) {
+        try { process.kill(pid); } catch {}
+        for (let i = 0; i < 20 && isAlive(pid); i++) await Bun.sleep(100);
+      }
+      this.commands.delete(state.id);
+    } else {
+      child?.kill();
+    }
+    state.pid = undefined;
+    state.streamUrl = undefined;
+  }
+
+  /** Put a paused or interrupted download back at the front of the queue */
+  resumeDownload(id: string): void {
+    const state = this.downloads.get(id);
+    if (!state || (state.status !== "paused" && state.status !== "interrupted") || !state.magnet) return;
+
+    state.status = "queued";
+    state.error = undefined;
+    this.moveInQueue(id, "top");
+    this.processQueue();
+  }
+
+  /** Finished downloads still uploading to the swarm; they don't count against maxConcurrent */
+  getSeeding(): DownloadState[] {
+    return this.getDownloads().filter((d) => d.status === "seeding");
+  }
+
+  async stopSeeding(id: string): Promise<void> {
+    const state = this.downloads.get(id);
+    if (!state || state.status !== "seeding") return;
+    await this.stopHelper(state, "shutdown");
+    state.status = "done";
+    state.uploadSpeed = 0;
+    state.peers = 0;
+    this.writeState(state);
+  }
+
+  getPaused(): DownloadState[] {
+    return this.getDownloads().filter((d) => d.status === "paused");
+  }
+
+  /** Downloads whose helper died mid-transfer (crash, reboot, kill) */
+  getInterrupted(): DownloadState[] {
+    return this.getDownloads().filter((d) => d.status === "interrupted");
+  }
+
+  /** Resume every interrupted download, keeping their original queue order */
+  resumeInterrupted(): void {
+    for (const state of this.getInterrupted()) this.requeue(state);
+    this.processQueue();
+  }
+
+  private requeue(state: DownloadState): void {
+    state.status = "queued";
+    state.error = undefined;
+    this.writeState(state);
+  }
+
+  /** The helper is gone; keep the magnet and partial files so the download can be resumed */
+  private markInterrupted(state: DownloadState): void {
+    if (state.status === "seeding") {
+      // The file was already complete, only the seeding stopped
+      state.status = "done";
+      state.error = undefined;
+    } else {
+      state.status = state.magnet ? "interrupted" : "error";
+      state.error = "Process ended unexpectedly";
     }
+    state.pid = undefined;
+    state.streamUrl = undefined;
+    state.uploadSpeed = 0;
+    state.speed = 0;
+    state.eta = 0;
+    state.peers = 0;
+    this.writeState(state);
+  }
 
-    if (state && (state.status === "connecting" || state.status === "downloading")) {
+  async cancelDownload(id: string): Promise<void> {
+    const state = this.downloads.get(id);
+    if (state) await this.stopHelper(state, "shutdown");
+
+    if (state && (state.status === "queued" || state.status === "connecting" || state.status === "downloading" || state.status === "paused" || state.status === "interrupted")) {
       state.status = "error";
       state.error = "Cancelled";
+      state.finishedAt = Date.now();
       this.writeState(state);
     }
+    this.processQueue();
+    this.finishDownloads().catch(() => {});
   }
 
   clearCompleted(): void {
     for (const [id, state] of this.downloads) {
-      if (state.status === "done" || state.status === "error" || state.status === "timeout") {
+      if (isTerminal(state.status)) {
+        this.record(state);
         this.downloads.delete(id);
         this.deleteStateFile(id);
       }
     }
   }
 
-  deleteDownload(id: string): void {
+  async deleteDownload(id: string): Promise<void> {
     const state = this.downloads.get(id);
     if (!state) return;
 
-    const child = this.processes.get(id);
-    if (child) {
-      child.kill();
-      this.processes.delete(id);
-    } else if (state.pid) {
-      try { process.kill(state.pid); } catch {}
-    }
-
+    await this.stopHelper(state, "shutdown");
+    this.record(state);
     this.downloads.delete(id);
     this.deleteStateFile(id);
+    this.processQueue();
   }
 }
 
-const downloadManager = new DownloadManager();
-
-async function downloadTorrent(magnet: string, movieTitle: string, torrentInfo?: Torrent): Promise<void> {
-  // Movie info box
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Lowercase info hash from a magnet link */
+function infoHash(magnet: string): string | undefined {
+  return magnet.match(/xt=urn:btih:([^&]+)/i)?.[1]?.toLowerCase();
+}
+
+/** Bytes free for unprivileged writes on the disk holding `dir`, which may not exist yet */
+async function freeSpace(dir: string): Promise<number | undefined> {
+  for (let path = resolve(dir); ; path = dirname(path)) {
+    try {
+      const fs = await statfs(path);
+      return fs.bavail * fs.bsize;
+    } catch (err: any) {
+      if (err.code !== "ENOENT" || dirname(path) === path) return undefined;
+    }
+  }
+}
+
+function lowOnSpace(check: { freeBytes?: number; neededBytes: number }): boolean {
+  return check.freeBytes !== undefined && check.neededBytes > check.freeBytes;
+}
+
+const downloadManager = new DownloadManager({ history: downloadHistory, trackers: trackerStore });
+
+// --- Watchlist ---
+
+export interface WatchlistEntry {
+  /** Snapshot of the catalog record, so the watchlist works without the API */
+  movie: Movie;
+  addedAt: number;
+  note?: string;
+}
+
+const WATCHLIST_PATH = join(DATA_HOME, "watchlist.json");
+
+export class Watchlist {
+  private entries = new Map<number, WatchlistEntry>();
+
+  /** Why the file couldn't be read; nothing is saved over it while set */
+  loadError?: string;
+
+  constructor(private filePath = WATCHLIST_PATH) {}
+
+  async load(): Promise<void> {
+    this.loadError = undefined;
+    try {
+      const data: unknown = await Bun.file(this.filePath).json();
+      if (!Array.isArray(data)) throw new Error("not a list of movies");
+      this.entries = new Map((data as WatchlistEntry[]).filter((e) => e.movie?.id).map((e) => [e.movie.id, e]));
+    } catch (err: any) {
+      // No watchlist yet is fine; a broken one would be lost on the next save
+      if (err.code !== "ENOENT") this.loadError = `${this.filePath} could not be read (${err.message})`;
+    }
+  }
+
+  private async save(): Promise<void> {
+    if (this.loadError) throw new Error(`Not changing your watchlist: ${this.loadError}. Fix or move the file first.`);
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await Bun.write(this.filePath, JSON.stringify(this.list(), null, 2) + "\n");
+  }
+
+  /** Newest first */
+  list(): WatchlistEntry[] {
+    return [...this.entries.values()].sort((a, b) => b.addedAt - a.addedAt);
+  }
+
+  has(movieId: number): boolean {
+    return this.entries.has(movieId);
+  }
+
+  async add(movie: Movie, note?: string): Promise<void> {
+    const existing = this.entries.get(movie.id);
+    this.entries.set(movie.id, {
+      movie,
+      addedAt: existing?.addedAt ?? Date.now(),
+      note: note || existing?.note,
+    });
+    await this.save();
+  }
+
+  async setNote(movieId: number, note: string): Promise<void> {
+    const entry = this.entries.get(movieId);
+    if (!entry) return;
+    entry.note = note || undefined;
+    await this.save();
+  }
+
+  async remove(movieId: number): Promise<void> {
+    if (!this.entries.delete(movieId)) return;
+    await this.save();
+  }
+}
+
+const watchlist = new Watchlist();
+
+/** Play a file already on disk, or show the Downloads screen for one still in progress */
+async function openExisting(check: Preflight): Promise<void> {
+  if (!check.existingFile) return viewDownloads();
+  const player = launchPlayer(check.existingFile);
+  if (player) console.log(chalk.green(`\n  Playing in ${player}`));
+  else console.log(chalk.dim(`\n  No video player found. The file is at:`));
+  console.log(chalk.cyan(`  ${check.existingFile}\n`));
+}
+
+/** Warn about duplicates and a full disk before queueing; false when the user backs out */
+async function confirmDownload(magnet: string, movieTitle: string, torrentInfo?: Torrent, movie?: Movie): Promise<boolean> {
+  const check = await downloadManager.preflight(magnet, movieTitle, torrentInfo, movie);
+
+  const [previous] = downloadHistory.completed(infoHash(magnet), movie?.imdb_code);
+  if (previous && !check.existingFile) {
+    console.log(chalk.dim(`\n  You downloaded ${previous.title} (${previous.quality}) on ${new Date(previous.finishedAt).toLocaleDateString()}.`));
+  }
+
+  if (check.duplicate || check.existingFile) {
+    console.log(check.duplicate && check.duplicate.status !== "done"
+      ? chalk.yellow(`\n  "${movieTitle}" is already in your downloads (${check.duplicate.status}).`)
+      : chalk.yellow(`\n  "${movieTitle}" is already downloaded: `) + chalk.dim(check.existingFile ?? ""));
+    const { choice } = await inquirer.prompt([{
+      type: "list",
+      name: "choice",
+      message: "What now?",
+      choices: [
+        { name: check.existingFile ? "Play the existing file" : "Open Downloads", value: "open" },
+        { name: "Download anyway", value: "download" },
+        { name: "Cancel", value: "cancel" },
+      ],
+    }]);
+    if (choice === "open") await openExisting(check);
+    if (choice !== "download") return false;
+  }
+
+  if (lowOnSpace(check)) {
+    const others = check.neededBytes - (torrentInfo?.size_bytes ?? 0);
+    console.log(chalk.red(`\n  Not enough disk space in ${config.downloadDir}`));
+    console.log(chalk.dim(`  Needs ${formatBytes(check.neededBytes)}`
+      + (others > 0 ? ` (${formatBytes(others)} of it for unfinished downloads)` : "")
+      + `, ${formatBytes(check.freeBytes!)} free.`));
+    const { proceed } = await inquirer.prompt([
+      { type: "confirm", name: "proceed", message: "Download anyway?", default: false },
+    ]);
+    if (!proceed) return false;
+  }
+  return true;
+}
+
+/** Returns false if the user backed out at the duplicate or disk space check */
+async function downloadTorrent(
+  magnet: string,
+  movieTitle: string,
+  torrentInfo?: Torrent,
+  opts: StartDownloadOptions = {},
+): Promise<boolean> {
+  if (!(await confirmDownload(magnet, movieTitle, torrentInfo, opts.movie))) return false;
+
+  // Movie info box
   const infoLines = [
     `${chalk.bold("Title:")}    ${chalk.white(movieTitle)}`,
     torrentInfo ? `${chalk.bold("Quality:")}  ${chalk.cyan(torrentInfo.quality)} ${chalk.dim(torrentInfo.type)}` : "",
     torrentInfo ? `${chalk.bold("Size:")}     ${torrentInfo.size}` : "",
-    torrentInfo ? `${chalk.bold("Codec:")}    ${chalk.dim(`${torrentInfo.video_codec} ${torrentInfo.audio_channels}ch`)}` : "",
-    `${chalk.bold("Save to:")}  ${chalk.dim(DOWNLOAD_DIR)}`,
+    torrentInfo?.video_codec ? `${chalk.bold("Codec:")}    ${chalk.dim(`${torrentInfo.video_codec} ${torrentInfo.audio_channels}ch`)}` : "",
+    `${chalk.bold("Save to:")}  ${chalk.dim(config.downloadDir)}`,
   ].filter(Boolean).join("\n");
   console.log(boxen(infoLines, {
     title: chalk.bold(" Download "),
@@ -680,9 +2461,69 @@ async function downloadTorrent(magnet: string, movieTitle: string, torrentInfo?:
   }));
 
   console.log(chalk.yellow("  Note: ") + chalk.dim("Ensure you have the right to download this content in your jurisdiction."));
-  downloadManager.startDownload(magnet, movieTitle, torrentInfo);
-  console.log(chalk.green("\n  Download started in background!"));
+  const id = downloadManager.startDownload(magnet, movieTitle, torrentInfo, opts);
+  const queued = downloadManager.getQueued().findIndex((d) => d.id === id);
+  if (queued === -1 && opts.pickFiles) {
+    const spinner = ora("Fetching the file list...").start();
+    const files = await downloadManager.waitForFiles(id);
+    const state = downloadManager.getDownloads().find((d) => d.id === id);
+    if (files && state) {
+      spinner.stop();
+      await chooseFiles(state);
+      console.log(chalk.green("\n  Download started in background!"));
+    } else {
+      spinner.fail("Could not fetch the file list. Check the Downloads menu for details.");
+    }
+  } else if (queued === -1) {
+    console.log(chalk.green("\n  Download started in background!"));
+  } else {
+    console.log(chalk.green(`\n  Download queued (position ${queued + 1}).`) + chalk.dim(" It starts when a slot frees up."));
+  }
   console.log(chalk.dim("  Check progress from the Downloads menu.\n"));
+  return true;
+}
+
+// --- Streaming ---
+
+const PLAYERS = ["mpv", "vlc", "iina", "celluloid"];
+
+/** Open `url` in the configured player (or the first one installed); returns its name, or null if none was found */
+function launchPlayer(url: string): string | null {
+  const [command, ...args] = config.player.trim()
+    ? config.player.trim().split(/\s+/)
+    : [PLAYERS.find((p) => Bun.which(p)) ?? ""];
+  if (!command || !Bun.which(command)) return null;
+
+  const child = nodeSpawn(command, [...args, url], { stdio: "ignore", detached: true });
+  child.on("error", () => {});
+  child.unref();
+  return command;
+}
+
+/** Wait for a download's stream to come up, then hand it to the player */
+async function playStream(id: string, movieTitle: string): Promise<void> {
+  const spinner = ora(`Buffering ${movieTitle}...`).start();
+  const url = await downloadManager.waitForStream(id);
+  if (!url) {
+    spinner.fail("Could not start the stream. Check the Downloads menu for details.");
+    return;
+  }
+
+  const player = launchPlayer(url);
+  if (player) {
+    spinner.succeed(`Playing in ${player}`);
+  } else {
+    spinner.warn(config.player ? `Player "${config.player}" not found` : "No video player found (install mpv or vlc)");
+  }
+  console.log(chalk.dim(`  Stream: `) + chalk.cyan(url));
+  console.log(chalk.dim("  The download continues in the background; playback gets smoother as it buffers.\n"));
+}
+
+async function streamTorrent(magnet: string, movie: Movie, torrentInfo?: Torrent): Promise<void> {
+  if (!(await confirmDownload(magnet, movie.title, torrentInfo, movie))) return;
+  console.log(chalk.yellow("\n  Note: ") + chalk.dim("Ensure you have the right to download this content in your jurisdiction."));
+  const id = downloadManager.startDownload(magnet, movie.title, torrentInfo, { stream: true, movie });
+  await playStream(id, movie.title);
 }
 
 // --- Subtitle Downloads ---
@@ -713,12 +2554,16 @@ export function parseSubtitleRows(html: string): SubtitleEntry[] {
   return entries;
 }
 
+/** A movie's subtitles on the first mirror that has some; throws when no mirror answered at all */
 async function fetchSubtitles(imdbCode: string): Promise<SubtitleEntry[]> {
+  let answered = false;
   for (const domain of SUBTITLE_DOMAINS) {
     try {
       const url = `https://${domain}/movie-imdb/${imdbCode}`;
       const res = await fetch(url, { signal: AbortSignal.timeout(10000) });
+      if (res.status === 404) answered = true; // No page for this movie
       if (!res.ok) continue;
+      answered = true;
       const html = await res.text();
       const entries = parseSubtitleRows(html);
       if (entries.length) return entries;
@@ -726,10 +2571,11 @@ async function fetchSubtitles(imdbCode: string): Promise<SubtitleEntry[]> {
       continue;
     }
   }
+  if (!answered) throw new Error("No subtitle site answered");
   return [];
 }
 
-export function scoreSubtitle(entry: SubtitleEntry, torrent: Torrent): number {
+export function scoreSubtitle(entry: SubtitleEntry, torrent: Pick<Torrent, "quality" | "type">): number {
   let score = entry.rating;
   const rel = entry.release.toLowerCase();
   if (torrent.quality && rel.includes(torrent.quality.toLowerCase())) score += 30;
@@ -738,18 +2584,18 @@ export function scoreSubtitle(entry: SubtitleEntry, torrent: Torrent): number {
   return score;
 }
 
-async function downloadSubtitle(
-  entry: SubtitleEntry,
-  movieTitle: string,
-  quality: string,
-  language: string,
-): Promise<string | null> {
+/** Subtitles fetched for a movie are saved in the download folder as `<prefix><Language>.srt` */
+function looseSubtitlePrefix(movieTitle: string, quality: string): string {
+  return `${movieTitle.replace(/[^a-zA-Z0-9 ._-]/g, "")}.${quality}.`;
+}
+
+/** Download a subtitle's zip and save the .srt inside it as `dest` */
+async function downloadSubtitle(entry: SubtitleEntry, dest: string): Promise<string | null> {
   const zipUrl = `https://subtitles.yts-subs.com${entry.downloadPath}.zip`;
-  const tmpDir = join(DOWNLOAD_DIR, ".subtitle-tmp-" + Date.now());
+  const tmpDir = join(dirname(dest), ".subtitle-tmp-" + Date.now());
 
   try {
     await mkdir(tmpDir, { recursive: true });
-    await mkdir(DOWNLOAD_DIR, { recursive: true });
 
     const res = await fetch(zipUrl, { signal: AbortSignal.timeout(15000) });
     if (!res.ok) return null;
@@ -769,12 +2615,8 @@ async function downloadSubtitle(
     const srtFile = files.find((f) => f.endsWith(".srt"));
     if (!srtFile) return null;
 
-    const safeName = movieTitle.replace(/[^a-zA-Z0-9 ._-]/g, "");
-    const finalName = `${safeName}.${quality}.${language}.srt`;
-    const finalPath = join(DOWNLOAD_DIR, finalName);
-
-    await rename(join(tmpDir, srtFile), finalPath);
-    return finalPath;
+    await rename(join(tmpDir, srtFile), dest);
+    return dest;
   } catch {
     return null;
   } finally {
@@ -792,14 +2634,20 @@ async function promptSubtitleDownload(movie: Movie, torrent?: Torrent, skipConfi
     }
 
     const spinner = ora("Fetching available subtitles...").start();
-    const allSubs = await fetchSubtitles(movie.imdb_code);
+    let allSubs: SubtitleEntry[];
+    try {
+      allSubs = await fetchSubtitles(movie.imdb_code);
+    } catch (err: any) {
+      spinner.fail(chalk.yellow(`${err.message}.`));
+      return;
+    }
 
     if (!allSubs.length) {
       spinner.fail(chalk.yellow("No subtitles found for this movie."));
       return;
     }
 
-    // Group by language, count entries per language, sort by SUBTITLE_LANGUAGES order
+    // Group by language, count entries per language, sort by configured language order
     const langMap = new Map<string, SubtitleEntry[]>();
     for (const s of allSubs) {
       const key = s.language;
@@ -808,8 +2656,8 @@ async function promptSubtitleDownload(movie: Movie, torrent?: Torrent, skipConfi
     }
 
     const availableLangs = [...langMap.keys()].sort((a, b) => {
-      const ai = SUBTITLE_LANGUAGES.indexOf(a);
-      const bi = SUBTITLE_LANGUAGES.indexOf(b);
+      const ai = config.subtitleLanguages.indexOf(a);
+      const bi = config.subtitleLanguages.indexOf(b);
       return (ai === -1 ? 999 : ai) - (bi === -1 ? 999 : bi);
     });
 
@@ -837,7 +2685,8 @@ async function promptSubtitleDownload(movie: Movie, torrent?: Torrent, skipConfi
 
     const dlSpinner = ora("Downloading subtitle...").start();
     const quality = torrent?.quality || "unknown";
-    const path = await downloadSubtitle(best.entry, movie.title, quality, language);
+    const dest = join(config.downloadDir, `${looseSubtitlePrefix(movie.title, quality)}${language}.srt`);
+    const path = await downloadSubtitle(best.entry, dest);
 
     if (path) {
       dlSpinner.succeed(chalk.green(`Subtitle saved: ${chalk.dim(path)}`));
@@ -850,472 +2699,2448 @@ async function promptSubtitleDownload(movie: Movie, torrent?: Torrent, skipConfi
   }
 }
 
-// --- Display Helpers ---
+/** Whether a subtitle site's language name is `wanted`, given as a name or a file suffix */
+function isSubtitleLanguage(language: string, wanted: string): boolean {
+  const want = wanted.trim().toLowerCase();
+  return language.trim().toLowerCase() === want || subtitleLanguageCode(language)?.toLowerCase() === want;
+}
 
-export function formatRuntime(minutes: number): string {
-  if (!minutes) return "N/A";
-  const h = Math.floor(minutes / 60);
-  const m = minutes % 60;
-  return h > 0 ? `${h}h ${m}m` : `${m}m`;
+/** The best-scoring subtitle in each of `languages`; no entry where the site has none */
+export function pickSubtitles(
+  entries: SubtitleEntry[],
+  languages: string[],
+  torrent: Pick<Torrent, "quality" | "type">,
+): { language: string; entry?: SubtitleEntry }[] {
+  return languages.map((language) => ({
+    language,
+    entry: entries
+      .filter((e) => isSubtitleLanguage(e.language, language))
+      .sort((a, b) => scoreSubtitle(b, torrent) - scoreSubtitle(a, torrent))[0],
+  }));
 }
 
-function healthColor(seeds: number): (text: string) => string {
-  if (seeds >= 50) return chalk.green;
-  if (seeds >= 10) return chalk.yellow;
-  return chalk.red;
+/**
+ * Save the best subtitle in each language next to a finished download's video,
+ * as `<video>.<code>.srt`. One already there, such as a subtitle shipped in the
+ * torrent, counts as fetched and is left alone. Languages whose download failed
+ * are both missing and `failed`, so they can be tried again.
+ */
+async function fetchDownloadSubtitles(
+  state: DownloadState,
+  languages: string[],
+): Promise<{ fetched: string[]; missing: string[]; failed: string[] }> {
+  if (!state.filePath) throw new Error("Download has no file path");
+  if (!state.imdbCode) throw new Error("No IMDb id to look subtitles up by");
+  const video = findMainVideo(await listFiles(state.filePath));
+  if (!video) throw new Error("No video file found");
+  const stem = video.path.slice(0, -extname(video.path).length);
+
+  const result = { fetched: [] as string[], missing: [] as string[], failed: [] as string[] };
+  const dest = (language: string) => `${stem}.${subtitleLanguageCode(language) ?? language.trim()}.srt`;
+  const wanted: string[] = [];
+  for (const language of languages) {
+    if (await exists(dest(language))) result.fetched.push(language);
+    else wanted.push(language);
+  }
+  if (!wanted.length) return result; // No need to ask the site
+
+  const entries = await fetchSubtitles(state.imdbCode);
+  const picks = pickSubtitles(entries, wanted, { quality: state.quality, type: state.releaseType ?? "" });
+  for (const { language, entry } of picks) {
+    if (!entry) {
+      result.missing.push(language);
+    } else if ((await downloadSubtitle(entry, dest(language))) === null) {
+      result.missing.push(language);
+      result.failed.push(language);
+    } else {
+      result.fetched.push(language);
+    }
+  }
+  return result;
 }
 
-function displayMovieTable(movies: Movie[]): void {
-  const table = new Table({
-    head: [
-      chalk.dim("#"),
-      chalk.bold("Title"),
-      chalk.dim("Year"),
-      chalk.yellow("Rating"),
-      chalk.cyan("Quality"),
-      chalk.green("Seeds"),
-      chalk.dim("Genre"),
-    ],
-    colWidths: [5, 32, 7, 9, 9, 8, 22],
-    style: { head: [], border: ["gray"], compact: false },
-    wordWrap: true,
-  });
+/** "Subtitles: en ✓ · ar missing" for the downloads screen */
+function formatSubtitleStatus(subtitles: { fetched: string[]; missing: string[] }): string {
+  const code = (language: string) => subtitleLanguageCode(language) ?? language.trim();
+  return chalk.dim("Subtitles: ") + [
+    ...subtitles.fetched.map((l) => chalk.green(`${code(l)} ✓`)),
+    ...subtitles.missing.map((l) => chalk.yellow(`${code(l)} missing`)),
+  ].join(chalk.dim(" · "));
+}
 
-  for (let i = 0; i < movies.length; i++) {
-    const m = movies[i]!;
-    const rating = m.rating ? chalk.yellow(`★ ${m.rating}`) : chalk.dim("--");
-    const genres = m.genres?.slice(0, 2).join(", ") || "N/A";
-    const bestTorrent = m.torrents?.reduce((best, t) => (t.seeds > (best?.seeds || 0) ? t : best), m.torrents[0]);
-    const seeds = bestTorrent ? healthColor(bestTorrent.seeds)(`↑${bestTorrent.seeds}`) : chalk.dim("--");
-    const quality = bestTorrent ? chalk.cyan(bestTorrent.quality) : chalk.dim("--");
+// --- Subtitle Fixing ---
 
-    table.push([
-      chalk.dim(`${i + 1}`),
-      chalk.bold.white(m.title),
-      chalk.dim(`${m.year}`),
-      rating,
-      quality,
-      seeds,
-      chalk.dim(genres),
-    ]);
-  }
+/** Code page subtitles in each language were usually saved in before UTF-8, by file suffix code */
+const LEGACY_ENCODINGS: Record<string, string> = {
+  ar: "windows-1256", fa: "windows-1256", ur: "windows-1256",
+  ru: "windows-1251", uk: "windows-1251", bg: "windows-1251", sr: "windows-1251",
+  pl: "windows-1250", cs: "windows-1250", hu: "windows-1250", hr: "windows-1250", sl: "windows-1250", ro: "windows-1250",
+  el: "windows-1253", tr: "windows-1254", he: "windows-1255", vi: "windows-1258", th: "windows-874",
+  zh: "gb18030", ja: "shift_jis", ko: "euc-kr",
+};
 
-  console.log(table.toString());
-}
+/** Encodings offered when the detected one is wrong */
+const SUBTITLE_ENCODINGS = ["utf-8", "utf-16le", "utf-16be", "windows-1252", ...new Set(Object.values(LEGACY_ENCODINGS))];
 
-async function displayMovieDetail(movie: Movie): Promise<void> {
-  console.log();
+/** Subtitle bytes as text; node:util's decoder takes any WHATWG label, where Bun's types list only three */
+function decodeSubtitle(bytes: Uint8Array, encoding: string): string {
+  if (!SUBTITLE_ENCODINGS.includes(encoding)) throw new Error(`Unsupported subtitle encoding "${encoding}"`);
+  return new TextDecoder(encoding).decode(bytes);
+}
 
-  // Poster image
-  if (movie.medium_cover_image) {
-    const poster = await fetchPosterImage(movie.medium_cover_image);
-    if (poster) {
-      console.log(poster);
-    }
-  }
+export type SubtitleFormat = "srt" | "vtt" | "ass";
 
-  // Title bar
-  const titleLine = chalk.bold.white(movie.title) + chalk.dim(` (${movie.year})`) + "  " + chalk.dim(movie.imdb_code);
-  console.log(boxen(titleLine, {
-    borderStyle: "double",
-    borderColor: "magenta",
-    padding: { top: 0, bottom: 0, left: 1, right: 1 },
-  }));
+export interface SubtitleCue {
+  /** Milliseconds from the start of the video */
+  start: number;
+  end: number;
+  text: string;
+}
 
-  // Info row
-  const ratingVal = movie.rating || 0;
-  const ratingBarFull = Math.round(ratingVal);
-  const ratingBar = chalk.yellow("█".repeat(ratingBarFull)) + chalk.dim("░".repeat(10 - ratingBarFull));
-  const infoTable = new Table({
-    style: { head: [], border: ["gray"], compact: true },
-    colWidths: [22, 12, 10, 30],
-  });
-  infoTable.push([
-    `${chalk.yellow(`★ ${ratingVal}`)} ${ratingBar}`,
-    chalk.white(formatRuntime(movie.runtime)),
-    chalk.white(movie.language?.toUpperCase() || "EN"),
-    chalk.dim(movie.genres?.join(", ") || "N/A"),
-  ]);
-  console.log(infoTable.toString());
+export interface SubtitleFix {
+  /** Encoding the file is in; detected when omitted */
+  encoding?: string;
+  /** Output format; defaults to SRT */
+  format?: SubtitleFormat;
+  /** Added to every cue, in ms; negative shows subtitles earlier */
+  offsetMs?: number;
+  /** Retime subtitles made for a `from` fps release to a `to` fps video, e.g. 25 → 23.976 */
+  fps?: { from: number; to: number };
+}
 
-  if (movie.yt_trailer_code) {
-    console.log(chalk.dim(`  Trailer: https://youtube.com/watch?v=${movie.yt_trailer_code}`));
+/**
+ * The encoding of a subtitle file: UTF-8 or UTF-16 when it says so or decodes
+ * cleanly, otherwise the usual code page for its language (a file suffix code
+ * such as "ar"). Without a language, Arabic script is recognised by "ال" in
+ * windows-1256, the most common pair of letters in it; anything else is taken
+ * as windows-1252.
+ */
+export function detectSubtitleEncoding(bytes: Uint8Array, language?: string): string {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return "utf-8";
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le";
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be";
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return "utf-8";
+  } catch {}
+
+  const legacy = language && LEGACY_ENCODINGS[language.split("-")[0]!.toLowerCase()];
+  if (legacy) return legacy;
+  let alef = 0;
+  for (let i = 0; i < bytes.length - 1; i++) {
+    if (bytes[i] === 0xc7 && bytes[i + 1] === 0xe1) alef++;
   }
+  return alef >= 3 ? "windows-1256" : "windows-1252";
+}
 
-  // Synopsis
-  if (movie.summary) {
-    const wrapWidth = 68;
-    const words = movie.summary.split(" ");
-    const lines: string[] = [];
-    let line = "";
-    for (const word of words) {
-      if ((line + " " + word).length > wrapWidth) {
-        lines.push(line);
-        line = word;
-      } else {
-        line = line ? line + " " + word : word;
-      }
-    }
-    if (line) lines.push(line);
-    const synopsisText = lines.slice(0, 6).join("\n") + (lines.length > 6 ? chalk.dim("\n...") : "");
-    console.log(boxen(synopsisText, {
-      title: chalk.bold(" Synopsis "),
-      titleAlignment: "left",
-      borderStyle: "round",
-      borderColor: "gray",
-      dimBorder: true,
-      padding: { top: 0, bottom: 0, left: 1, right: 1 },
-    }));
+function parseTimestamp(stamp: string): number {
+  const [, h, m, s, ms] = stamp.match(/^(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})$/)!;
+  return ((Number(h ?? 0) * 60 + Number(m)) * 60 + Number(s)) * 1000 + Number(ms!.padEnd(3, "0"));
+}
+
+/** Cues of an SRT or WebVTT file; numbering, headers and notes are dropped */
+export function parseSrt(text: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  const stamp = String.raw`(?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3}`;
+  const timing = new RegExp(`^\\s*(${stamp})\\s*-->\\s*(${stamp})`);
+  for (const block of text.replace(/\r\n?/g, "\n").split(/\n\s*\n/)) {
+    const lines = block.split("\n");
+    const at = lines.findIndex((line) => timing.test(line));
+    if (at === -1) continue;
+    const [, start, end] = lines[at]!.match(timing)!;
+    cues.push({ start: parseTimestamp(start!), end: parseTimestamp(end!), text: lines.slice(at + 1).join("\n").trim() });
   }
+  return cues;
+}
 
-  // Torrents
-  if (movie.torrents?.length) {
-    const torrentTable = new Table({
-      head: [
-        chalk.cyan("Quality"),
-        chalk.dim("Type"),
-        chalk.white("Size"),
-        chalk.green("Seeds"),
-        chalk.red("Peers"),
-        chalk.dim("Codec"),
-        chalk.dim("Audio"),
-      ],
-      style: { head: [], border: ["gray"], compact: false },
-    });
+/** Shift and rescale cue times; cues that end up entirely before 0 are dropped */
+export function retimeCues(cues: SubtitleCue[], offsetMs = 0, fps?: { from: number; to: number }): SubtitleCue[] {
+  const scale = fps ? fps.from / fps.to : 1;
+  const time = (ms: number) => Math.max(0, Math.round(ms * scale + offsetMs));
+  return cues
+    .filter((cue) => cue.end * scale + offsetMs > 0)
+    .map((cue) => ({ ...cue, start: time(cue.start), end: time(cue.end) }));
+}
 
-    for (const t of movie.torrents) {
-      torrentTable.push([
-        chalk.cyan.bold(t.quality),
-        chalk.dim(t.type),
-        t.size,
-        healthColor(t.seeds)(`↑${t.seeds}`),
-        chalk.dim(`↓${t.peers}`),
-        chalk.dim(t.video_codec || "--"),
-        chalk.dim(t.audio_channels ? `${t.audio_channels}ch` : "--"),
-      ]);
-    }
+function formatTimestamp(ms: number, separator: string, fraction = 3): string {
+  const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+  const h = Math.floor(ms / 3_600_000);
+  const m = Math.floor(ms / 60_000) % 60;
+  const s = Math.floor(ms / 1000) % 60;
+  const frac = fraction === 3 ? pad(ms % 1000, 3) : pad(Math.floor((ms % 1000) / 10));
+  return `${fraction === 3 ? pad(h) : h}:${pad(m)}:${pad(s)}${separator}${frac}`;
+}
 
-    console.log(boxen(torrentTable.toString(), {
-      title: chalk.bold(" Torrents "),
-      titleAlignment: "left",
-      borderStyle: "round",
-      borderColor: "cyan",
-      dimBorder: true,
-      padding: { top: 0, bottom: 0, left: 0, right: 0 },
-    }));
-  } else {
-    console.log(chalk.dim("  No torrents available"));
+/** SRT's <i>, <b>, <u> and <font color> as ASS override tags; other markup is dropped */
+function assText(text: string): string {
+  return text
+    .replace(/<(\/?)([ibu])>/gi, (_, close: string, tag: string) => `{\\${tag.toLowerCase()}${close ? 0 : 1}}`)
+    .replace(/<font color="?#?([0-9a-f]{6})"?>/gi, (_, rgb: string) => `{\\c&H${rgb.slice(4, 6)}${rgb.slice(2, 4)}${rgb.slice(0, 2)}&}`)
+    .replace(/<\/font>/gi, "{\\c}")
+    .replace(/<[^>]+>/g, "")
+    .replace(/\n/g, "\\N");
+}
+
+export function formatSubtitles(cues: SubtitleCue[], format: SubtitleFormat): string {
+  if (format === "srt") {
+    return cues.map((c, i) => `${i + 1}\n${formatTimestamp(c.start, ",")} --> ${formatTimestamp(c.end, ",")}\n${c.text}\n`).join("\n");
   }
-  console.log();
+  if (format === "vtt") {
+    return "WEBVTT\n\n" + cues.map((c) => `${formatTimestamp(c.start, ".")} --> ${formatTimestamp(c.end, ".")}\n${c.text}\n`).join("\n");
+  }
+  return [
+    "[Script Info]",
+    "ScriptType: v4.00+",
+    "PlayResX: 1920",
+    "PlayResY: 1080",
+    "",
+    "[V4+ Styles]",
+    "Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding",
+    "Style: Default,Arial,64,&H00FFFFFF,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,3,1,2,60,60,50,1",
+    "",
+    "[Events]",
+    "Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text",
+    ...cues.map((c) => `Dialogue: 0,${formatTimestamp(c.start, ".", 2)},${formatTimestamp(c.end, ".", 2)},Default,,0,0,0,,${assText(c.text)}`),
+  ].join("\n") + "\n";
 }
 
-// --- Menu Actions ---
+/** Re-encode an SRT or WebVTT file as UTF-8, retimed and in the requested format */
+export function fixSubtitle(
+  bytes: Uint8Array,
+  fix: SubtitleFix = {},
+  language?: string,
+): { text: string; encoding: string; cues: number } {
+  const encoding = fix.encoding ?? detectSubtitleEncoding(bytes, language);
+  const cues = retimeCues(parseSrt(decodeSubtitle(bytes, encoding)), fix.offsetMs, fix.fps);
+  if (!cues.length) throw new Error("No subtitles found in the file");
+  return { text: formatSubtitles(cues, fix.format ?? "srt"), encoding, cues: cues.length };
+}
 
-const SORT_OPTIONS = [
-  { name: "Date Added", value: "date_added" },
-  { name: "Trending", value: "like_count" },
-  { name: "Rating", value: "rating" },
-  { name: "Seeds", value: "seeds" },
-  { name: "Year", value: "year" },
-  { name: "Title", value: "title" },
-];
+/** The language code in a subtitle file name: `Movie.ar.srt` → "ar", `Movie.Arabic.srt` → "ar" */
+function subtitleFileLanguage(path: string): string | undefined {
+  const tag = basename(path, extname(path)).split(".").pop() ?? "";
+  if (subtitleLanguageCode(tag)) return subtitleLanguageCode(tag);
+  if (Object.values(LANGUAGE_CODES).includes(tag)) return tag;
+  const name = languageInFileName(path);
+  return name && subtitleLanguageCode(name);
+}
 
-const GENRE_OPTIONS = [
-  "all", "action", "adventure", "animation", "biography", "comedy", "crime",
-  "documentary", "drama", "family", "fantasy", "history", "horror", "music",
-  "mystery", "romance", "sci-fi", "sport", "thriller", "war", "western",
-];
+/**
+ * Fix a subtitle file on disk. Kept as SRT, it is rewritten in place and the
+ * first original is saved as `<file>.orig`; converted, the new file is written
+ * next to it and the original left alone.
+ */
+async function fixSubtitleFile(path: string, fix: SubtitleFix): Promise<{ path: string; encoding: string; cues: number }> {
+  const format = fix.format ?? "srt";
+  const dest = path.slice(0, -extname(path).length) + `.${format}`;
+  if (dest !== path && (await exists(dest))) throw new Error(`${dest} already exists`);
+
+  const bytes = new Uint8Array(await Bun.file(path).arrayBuffer());
+  const fixed = fixSubtitle(bytes, fix, subtitleFileLanguage(path));
+  if (dest === path && !(await exists(`${path}.orig`))) await copyFile(path, `${path}.orig`);
+  await Bun.write(dest, fixed.text);
+  return { path: dest, encoding: fixed.encoding, cues: fixed.cues };
+}
 
-async function browseMovies(): Promise<void> {
-  const { sortBy } = await inquirer.prompt([
-    { type: "list", name: "sortBy", message: "Sort by:", choices: SORT_OPTIONS },
-  ]);
+// --- Library Organizer ---
+
+/** Subtitle language names, as the subtitle sites spell them, to the suffixes Plex, Jellyfin and Kodi read */
+const LANGUAGE_CODES: Record<string, string> = {
+  english: "en", arabic: "ar", spanish: "es", french: "fr", german: "de", portuguese: "pt",
+  "brazilian portuguese": "pt-BR", turkish: "tr", italian: "it", dutch: "nl", polish: "pl",
+  russian: "ru", chinese: "zh", korean: "ko", japanese: "ja", indonesian: "id", romanian: "ro",
+  greek: "el", swedish: "sv", norwegian: "no", finnish: "fi", danish: "da", "farsi/persian": "fa",
+  farsi: "fa", persian: "fa", urdu: "ur", vietnamese: "vi", hebrew: "he", hungarian: "hu",
+  czech: "cs", bulgarian: "bg", croatian: "hr", serbian: "sr", slovenian: "sl", ukrainian: "uk",
+  thai: "th", malay: "ms", bengali: "bn", hindi: "hi",
+};
+
+export function subtitleLanguageCode(language: string): string | undefined {
+  return LANGUAGE_CODES[language.trim().toLowerCase()];
+}
+
+/** Find a language name inside a subtitle file name such as `Subs/2_English.srt` */
+function languageInFileName(name: string): string | undefined {
+  const lower = basename(name).toLowerCase();
+  return Object.keys(LANGUAGE_CODES)
+    .sort((a, b) => b.length - a.length) // "brazilian portuguese" before "portuguese"
+    .find((language) => new RegExp(`(^|[^a-z])${language}([^a-z]|$)`).test(lower));
+}
+
+function isVideoFile(name: string): boolean {
+  return VIDEO_EXTENSIONS.includes(extname(name).toLowerCase());
+}
+
+function isSubtitleFile(name: string): boolean {
+  return SUBTITLE_EXTENSIONS.includes(extname(name).toLowerCase());
+}
+
+/** Samples, ads, artwork and the like: anything that isn't the movie or its subtitles */
+function isJunkFile(name: string, size: number, largest: number): boolean {
+  if (isSubtitleFile(name)) return false;
+  if (isVideoFile(name)) return /\bsample\b/i.test(name) && size < largest;
+  return true;
+}
+
+/** Drop characters that are illegal in Windows/SMB file names, where most media libraries live */
+function safeFileName(name: string): string {
+  return name.replace(/[<>:"/\\|?*\x00-\x1f]/g, "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Fill in a library template with the tokens {title}, {year}, {quality} and
+ * {imdb}. Brackets left empty by a missing value are dropped, so
+ * "{title} ({year})" becomes "Title" when the year is unknown.
+ */
+export function renderLibraryPath(
+  template: string,
+  info: { title: string; year?: number; quality?: string; imdb?: string },
+): string {
+  const values: Record<string, string> = {
+    title: safeFileName(info.title),
+    year: info.year ? String(info.year) : "",
+    quality: info.quality && info.quality !== "unknown" ? info.quality : "",
+    imdb: info.imdb ?? "",
+  };
+  const path = template
+    .split("/")
+    .map((part) => part
+      .replace(/\{(\w+)\}/g, (_, key: string) => values[key] ?? "")
+      .replace(/\s*(\(\s*\)|\[\s*\])/g, "")
+      .trim())
+    .filter(Boolean)
+    .join("/");
+  return template.startsWith("/") ? `/${path}` : path;
+}
+
+async function exists(path: string): Promise<boolean> {
+  return stat(path).then(() => true, () => false);
+}
+
+/** Rename, falling back to copy + delete when the library is on another filesystem */
+async function moveFile(src: string, dest: string): Promise<void> {
+  if (src === dest) return;
+  if (await exists(dest)) throw new Error(`${dest} already exists`);
+  await mkdir(dirname(dest), { recursive: true });
+  try {
+    await rename(src, dest);
+  } catch (err: any) {
+    if (err.code !== "EXDEV") throw err;
+    await copyFile(src, dest);
+    await unlink(src);
+  }
+}
+
+async function listFiles(root: string): Promise<{ path: string; size: number }[]> {
+  const info = await stat(root);
+  if (!info.isDirectory()) return [{ path: root, size: info.size }];
+
+  const files: { path: string; size: number }[] = [];
+  for (const name of await readdir(root, { recursive: true })) {
+    const path = join(root, name);
+    const entry = await stat(path).catch(() => null);
+    if (entry?.isFile()) files.push({ path, size: entry.size });
+  }
+  return files;
+}
+
+/** The movie itself: the largest video that isn't a sample */
+function findMainVideo(files: { path: string; size: number }[]): { path: string; size: number } | undefined {
+  const largest = Math.max(0, ...files.map((f) => f.size));
+  return files
+    .filter((f) => isVideoFile(f.path) && !isJunkFile(f.path, f.size, largest))
+    .sort((a, b) => b.size - a.size)[0];
+}
+
+/** Words of a release or file name, for loose matching: "Inception (2010) [1080p]" → " inception 2010 1080p " */
+function nameWords(name: string): string {
+  return ` ${name.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim()} `;
+}
+
+/**
+ * A video of this movie already in `dir`: its file in the library, or a loose
+ * download (file or torrent folder) whose name has the title, year and quality
+ */
+async function findMovieOnDisk(
+  dir: string,
+  info: { title: string; year?: number; quality?: string },
+): Promise<string | undefined> {
+  const library = resolve(dir, renderLibraryPath(config.libraryTemplate, info));
+  for (const ext of VIDEO_EXTENSIONS) {
+    if (await exists(library + ext)) return library + ext;
+  }
+
+  const wanted = [info.title, info.year ? String(info.year) : "", info.quality ?? ""]
+    .map((part) => nameWords(part))
+    .filter((words) => words.trim());
+  for (const entry of await readdir(dir).catch(() => [])) {
+    const words = nameWords(entry);
+    if (!wanted.every((part) => words.includes(part))) continue;
+    const video = findMainVideo(await listFiles(join(dir, entry)).catch(() => []));
+    if (video) return video.path;
+  }
+  return undefined;
+}
+
+/** Delete junk left in a torrent folder, then the folder itself if nothing else is left */
+async function cleanUpTorrentFolder(root: string, largest: number): Promise<void> {
+  for (const file of await listFiles(root)) {
+    if (isJunkFile(file.path, file.size, largest)) await unlink(file.path).catch(() => {});
+  }
+  const dirs = (await readdir(root, { recursive: true }))
+    .map((name) => join(root, name))
+    .sort((a, b) => b.length - a.length); // Deepest first
+  for (const dir of [...dirs, root]) await rmdir(dir).catch(() => {}); // Fails on files and non-empty dirs
+}
+
+/** Move a finished download's video and subtitles into the library layout; returns the new video path */
+async function organizeDownload(state: DownloadState): Promise<string> {
+  if (!state.filePath) throw new Error("Download has no file path");
+  const base = state.downloadDir ?? config.downloadDir;
+  const root = state.filePath;
+  const rootIsDir = (await stat(root)).isDirectory();
+  const files = await listFiles(root);
+
+  const video = findMainVideo(files);
+  if (!video) throw new Error("No video file found");
+
+  const name = renderLibraryPath(config.libraryTemplate, {
+    title: state.movieTitle,
+    year: state.year,
+    quality: state.quality,
+    imdb: state.imdbCode,
+  });
+  const dest = resolve(base, name) + extname(video.path).toLowerCase();
+  await moveFile(video.path, dest);
+  const destBase = dest.slice(0, -extname(dest).length);
+
+  // Subtitles shipped in the torrent, plus any fetched into the download folder
+  const subtitles = files
+    .filter((f) => isSubtitleFile(f.path))
+    .map((f) => ({ path: f.path, language: languageInFileName(f.path) }));
+  const prefix = looseSubtitlePrefix(state.movieTitle, state.quality);
+  for (const file of await readdir(base).catch(() => [])) {
+    if (file.startsWith(prefix) && isSubtitleFile(file)) {
+      subtitles.push({ path: join(base, file), language: file.slice(prefix.length, -extname(file).length) });
+    }
+  }
+  for (const sub of subtitles) {
+    const code = sub.language && subtitleLanguageCode(sub.language);
+    // A second subtitle for the same language stays where it is
+    await moveFile(sub.path, `${destBase}${code ? `.${code}` : ""}${extname(sub.path).toLowerCase()}`).catch(() => {});
+  }
+
+  if (rootIsDir) await cleanUpTorrentFolder(root, video.size);
+  return dest;
+}
+
+// --- NFO & Artwork ---
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/** A movie.nfo in Kodi's schema, which Jellyfin, Emby and Plex (with an agent) also read */
+export function buildNfo(movie: Movie): string {
+  const lines = ['<?xml version="1.0" encoding="UTF-8" standalone="yes"?>', "<movie>"];
+  const add = (tag: string, value: string | number | undefined, attrs = "") => {
+    if (value) lines.push(`  <${tag}${attrs}>${escapeXml(String(value))}</${tag}>`);
+  };
+
+  add("title", movie.title);
+  add("year", movie.year);
+  if (movie.rating) {
+    lines.push(
+      "  <ratings>",
+      `    <rating name="imdb" max="10" default="true"><value>${movie.rating}</value></rating>`,
+      "  </ratings>",
+    );
+  }
+  add("plot", movie.description_full || movie.summary);
+  add("runtime", movie.runtime);
+  add("mpaa", movie.mpa_rating);
+  for (const genre of movie.genres ?? []) add("genre", genre);
+  add("uniqueid", movie.imdb_code, ' type="imdb" default="true"');
+  if (movie.yt_trailer_code) {
+    add("trailer", `plugin://plugin.video.youtube/?action=play_video&videoid=${movie.yt_trailer_code}`);
+  }
+  add("thumb", movie.large_cover_image, ' aspect="poster"');
+  const fanart = movie.background_image_original || movie.background_image;
+  if (fanart) lines.push("  <fanart>", `    <thumb>${escapeXml(fanart)}</thumb>`, "  </fanart>");
+  lines.push("</movie>");
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Write the NFO, poster and fanart next to a finished download's video. A
+ * movie with its own folder gets movie.nfo/poster.jpg/fanart.jpg; one loose in
+ * the download folder gets names tied to the video file instead. Files already
+ * there are left alone, so hand-edited metadata survives.
+ */
+async function writeMovieMetadata(state: DownloadState): Promise<void> {
+  if (!state.movie || !state.filePath) throw new Error("Download has no movie details");
+  const video = findMainVideo(await listFiles(state.filePath));
+  if (!video) throw new Error("No video file found");
+
+  const dir = dirname(video.path);
+  const loose = resolve(dir) === resolve(state.downloadDir ?? config.downloadDir);
+  const stem = video.path.slice(0, -extname(video.path).length);
+  const target = (name: string, ext: string) =>
+    loose ? `${stem}${name === "movie" ? "" : `-${name}`}${ext}` : join(dir, name + ext);
+
+  const nfoPath = target("movie", ".nfo");
+  if (!(await exists(nfoPath))) await Bun.write(nfoPath, buildNfo(state.movie));
+
+  const artwork = [
+    { name: "poster", url: state.movie.large_cover_image },
+    { name: "fanart", url: state.movie.background_image_original || state.movie.background_image },
+  ];
+  for (const { name, url } of artwork) {
+    const path = target(name, ".jpg");
+    if (!url || (await exists(path))) continue;
+    const bytes = await posterBytes(url);
+    if (bytes) await Bun.write(path, bytes);
+  }
+}
+
+// --- Library Index ---
+
+export interface LibraryEntry {
+  /** Absolute path of the video */
+  path: string;
+  size: number;
+  /** File mtime; a rescan only re-matches files that are new or changed */
+  modifiedAt: number;
+  /** Guessed from the file (or folder) name */
+  title: string;
+  year?: number;
+  quality?: string;
+  /** Language codes of the subtitles next to the video, "und" when unknown */
+  subtitles: string[];
+  /** Catalog record without its torrents; missing when nothing matched */
+  movie?: Movie;
+  matchedBy?: "hash" | "nfo" | "name";
+}
+
+/** A file movizone downloaded itself, so its torrent and catalog record are known */
+export interface KnownFile {
+  path: string;
+  infoHash?: string;
+  quality?: string;
+  movie?: Movie;
+}
+
+export interface LibraryScanOptions {
+  folders: string[];
+  known?: KnownFile[];
+  /** Folders and files to skip, such as downloads still in progress */
+  exclude?: string[];
+  /** Catalog search by title or IMDb id */
+  lookup?: (query: string) => Promise<Movie[]>;
+  /** Look up unmatched files again, not just new or changed ones */
+  rematch?: boolean;
+}
+
+export interface LibraryScanResult {
+  added: number;
+  removed: number;
+  unmatched: number;
+}
+
+/** Title, year and quality from a release name such as "Blade.Runner.2049.2017.1080p.BluRay.x264" */
+export function parseReleaseName(name: string): { title: string; year?: number; quality?: string } {
+  const stem = isVideoFile(name) ? name.slice(0, -extname(name).length) : name;
+  const clean = stem.replace(/[._]/g, " ");
+  const qualityMatch = clean.match(/\b(2160p|1080p|720p|480p|3D)\b/i);
+  // The last year that isn't the whole start of the name: "1917 2019" is 1917 from 2019
+  const yearMatch = [...clean.matchAll(/\b(19\d{2}|20\d{2})\b/g)].filter((m) => m.index! > 0).at(-1);
+  const end = yearMatch?.index ?? qualityMatch?.index ?? clean.search(/[[(]/);
+  const title = (end > 0 ? clean.slice(0, end) : clean).replace(/[\s\-([{]+$/, "").replace(/\s+/g, " ").trim();
+  return {
+    title: title || clean.trim(),
+    year: yearMatch ? parseInt(yearMatch[0]) : undefined,
+    quality: qualityMatch?.[1]!.toLowerCase().replace("3d", "3D"),
+  };
+}
+
+/**
+ * Pick the catalog movie a file belongs to: the one whose torrent has the
+ * file's info hash, else one with the same title (±1 year, release years vary)
+ */
+export function matchMovie(
+  guess: { title: string; year?: number },
+  candidates: Movie[],
+  infoHash?: string,
+): { movie: Movie; matchedBy: "hash" | "name" } | undefined {
+  const byHash = infoHash && candidates.find((m) => m.torrents?.some((t) => t.hash.toLowerCase() === infoHash));
+  if (byHash) return { movie: byHash, matchedBy: "hash" };
+
+  const sameYear = candidates.filter((m) => !guess.year || Math.abs(m.year - guess.year) <= 1);
+  const exact = sameYear.find((m) => nameWords(m.title) === nameWords(guess.title));
+  const movie = exact ?? rankMovies(guess.title, sameYear, 80)[0];
+  return movie && { movie, matchedBy: "name" };
+}
+
+/** IMDb id from the NFO next to a video (ours, or one a media server wrote) */
+async function nfoImdbCode(videoPath: string): Promise<string | undefined> {
+  const stem = videoPath.slice(0, -extname(videoPath).length);
+  for (const nfo of [`${stem}.nfo`, join(dirname(videoPath), "movie.nfo")]) {
+    const text = await Bun.file(nfo).text().catch(() => "");
+    const code = text.match(/\b(tt\d{7,})\b/)?.[1];
+    if (code) return code;
+  }
+  return undefined;
+}
+
+/** Subtitle files next to a video: `<stem>.srt`, `<stem>.en.srt` and the like */
+async function subtitleFilesFor(videoPath: string): Promise<string[]> {
+  const dir = dirname(videoPath);
+  const stem = basename(videoPath, extname(videoPath));
+  return (await readdir(dir).catch(() => []))
+    .filter((file) => file.startsWith(stem) && isSubtitleFile(file))
+    .map((file) => join(dir, file));
+}
+
+/** Languages of `Movie.en.srt`-style subtitles next to `Movie.mkv` */
+async function subtitleLanguagesFor(videoPath: string): Promise<string[]> {
+  const stem = basename(videoPath, extname(videoPath));
+  const codes = new Set<string>();
+  for (const file of (await subtitleFilesFor(videoPath)).map((path) => basename(path))) {
+    const tag = file.slice(stem.length, -extname(file).length).replace(/^[.\s_-]+/, "");
+    const language = tag && (subtitleLanguageCode(tag) ?? (Object.values(LANGUAGE_CODES).includes(tag) ? tag : undefined));
+    codes.add(language || "und");
+  }
+  return [...codes].sort();
+}
+
+const LIBRARY_PATH = join(DATA_HOME, "library.json");
+
+/** Movies on disk, matched against the catalog; survives the 24h cleanup of download state */
+export class Library {
+  private entries = new Map<string, LibraryEntry>();
+
+  constructor(private filePath = LIBRARY_PATH) {}
+
+  async load(): Promise<void> {
+    try {
+      const data = await Bun.file(this.filePath).json() as LibraryEntry[];
+      this.entries = new Map(data.filter((e) => e.path).map((e) => [e.path, e]));
+    } catch {
+      // Not scanned yet
+    }
+  }
+
+  private async save(): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await Bun.write(this.filePath, JSON.stringify(this.list(), null, 2) + "\n");
+  }
+
+  /** By title, then year */
+  list(): LibraryEntry[] {
+    const title = (e: LibraryEntry) => e.movie?.title ?? e.title;
+    return [...this.entries.values()].sort((a, b) =>
+      title(a).localeCompare(title(b)) || (a.movie?.year ?? a.year ?? 0) - (b.movie?.year ?? b.year ?? 0));
+  }
+
+  /** Copies of a catalog movie on disk, matched by id or IMDb id */
+  find(movie: Movie): LibraryEntry[] {
+    return this.list().filter((e) =>
+      e.movie && (e.movie.id === movie.id || (!!movie.imdb_code && e.movie.imdb_code === movie.imdb_code)));
+  }
+
+  has(movie: Movie): boolean {
+    return this.find(movie).length > 0;
+  }
+
+  async scan(opts: LibraryScanOptions): Promise<LibraryScanResult> {
+    const result: LibraryScanResult = { added: 0, removed: 0, unmatched: 0 };
+    const known = new Map((opts.known ?? []).map((k) => [resolve(k.path), k]));
+    const exclude = (opts.exclude ?? []).map((p) => resolve(p));
+    const isExcluded = (path: string) => exclude.some((p) => path === p || path.startsWith(p + sep));
+    const scannedRoots: string[] = [];
+    const seen = new Set<string>();
+
+    for (const folder of new Set(opts.folders.map((f) => resolve(f)))) {
+      let names: string[];
+      try {
+        names = await readdir(folder, { recursive: true });
+      } catch {
+        continue; // Unmounted or missing: keep what we knew about it
+      }
+      scannedRoots.push(folder);
+
+      for (const name of names) {
+        // Hidden folders hold download state and temp files; samples aren't the movie
+        if (name.split(/[\\/]/).some((part) => part.startsWith("."))) continue;
+        if (!isVideoFile(name) || /\bsample\b/i.test(basename(name))) continue;
+        const path = join(folder, name);
+        if (seen.has(path) || isExcluded(path)) continue;
+        const info = await stat(path).catch(() => null);
+        if (!info?.isFile()) continue;
+        seen.add(path);
+
+        const previous = this.entries.get(path);
+        const unchanged = previous?.size === info.size && previous.modifiedAt === Math.floor(info.mtimeMs);
+        const subtitles = await subtitleLanguagesFor(path);
+        if (previous && unchanged && (previous.movie || !opts.rematch)) {
+          previous.subtitles = subtitles;
+          if (!previous.movie) result.unmatched++;
+          continue;
+        }
+
+        const entry = await this.match(path, opts.lookup, known.get(path));
+        entry.size = info.size;
+        entry.modifiedAt = Math.floor(info.mtimeMs);
+        entry.subtitles = subtitles;
+        if (!previous) result.added++;
+        if (!entry.movie) result.unmatched++;
+        this.entries.set(path, entry);
+      }
+    }
+
+    for (const path of this.entries.keys()) {
+      if (seen.has(path) || !scannedRoots.some((root) => path.startsWith(root + sep))) continue;
+      this.entries.delete(path);
+      result.removed++;
+    }
+
+    await this.save();
+    return result;
+  }
+
+  private async match(path: string, lookup?: (query: string) => Promise<Movie[]>, known?: KnownFile): Promise<LibraryEntry> {
+    let guess = parseReleaseName(basename(path));
+    if (!guess.year) {
+      const folder = parseReleaseName(basename(dirname(path)));
+      if (folder.year) guess = { ...folder, quality: guess.quality ?? folder.quality };
+    }
+    const entry: LibraryEntry = { path, size: 0, modifiedAt: 0, subtitles: [], ...guess };
+    if (known?.quality && known.quality !== "unknown") entry.quality = known.quality;
+    const search = async (query: string) => (lookup ? await lookup(query).catch(() => []) : []);
+
+    if (known?.movie) {
+      return { ...entry, movie: { ...known.movie, torrents: [] }, matchedBy: "hash" };
+    }
+    const imdb = await nfoImdbCode(path);
+    const fromNfo = imdb && (await search(imdb)).find((m) => m.imdb_code === imdb);
+    if (fromNfo) {
+      return { ...entry, movie: { ...fromNfo, torrents: [] }, matchedBy: "nfo" };
+    }
+    const found = matchMovie(guess, await search(guess.title), known?.infoHash);
+    if (found) {
+      return { ...entry, movie: { ...found.movie, torrents: [] }, matchedBy: found.matchedBy };
+    }
+    return entry;
+  }
+}
+
+const library = new Library();
+
+// --- Torrent Sources ---
+
+/** A magnet or .torrent added by hand rather than picked from the catalog */
+export interface TorrentSource {
+  /** Lowercase hex, whatever form the magnet used */
+  infoHash: string;
+  name?: string;
+  trackers: string[];
+  /** Selected files' size; only known from a .torrent */
+  size?: number;
+  /** Magnet to store with the download; built from the file for a .torrent */
+  magnet: string;
+  /** Path of the .torrent, which lets the helper skip fetching metadata from peers */
+  torrentFile?: string;
+}
+
+const BASE32 = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+/** 32-character base32 info hash (older magnets) → 40-character hex */
+function base32ToHex(value: string): string {
+  let bits = "";
+  for (const c of value.toUpperCase()) bits += BASE32.indexOf(c).toString(2).padStart(5, "0");
+  return bits.match(/.{4}/g)!.map((b) => parseInt(b, 2).toString(16)).join("");
+}
+
+export function parseMagnet(uri: string): TorrentSource {
+  const params = new URLSearchParams(uri.trim().replace(/^magnet:\?/i, ""));
+  const xt = params.getAll("xt").find((v) => /^urn:btih:/i.test(v))?.slice("urn:btih:".length) ?? "";
+  const infoHash = /^[0-9a-f]{40}$/i.test(xt) ? xt.toLowerCase()
+    : /^[A-Z2-7]{32}$/i.test(xt) ? base32ToHex(xt)
+    : undefined;
+  if (!uri.trim().toLowerCase().startsWith("magnet:?") || !infoHash) {
+    throw new Error("Not a BitTorrent magnet link (it needs an xt=urn:btih: info hash)");
+  }
+  const trackers = params.getAll("tr");
+  const name = params.get("dn") ?? undefined;
+  return { infoHash, name, trackers, magnet: sourceMagnet(infoHash, name, trackers) };
+}
+
+/** The torrent's own trackers first, then ours */
+function sourceMagnet(infoHash: string, name: string | undefined, trackers: string[]): string {
+  return buildMagnet(infoHash, name ?? infoHash, [...new Set([...trackers, ...trackerStore.active(config.trackers)])]);
+}
+
+/**
+ * Decode the bencoded value at `pos`. Byte strings stay bytes (names may not
+ * be UTF-8), and `span` records where the "info" dictionary sits, for hashing
+ */
+function bdecode(buf: Uint8Array, pos: number, span: { info?: [number, number] }): [unknown, number] {
+  if (pos >= buf.length) throw new Error("Truncated data");
+  const c = buf[pos];
+  if (c === 0x69) { // i<digits>e
+    const end = buf.indexOf(0x65, pos);
+    if (end === -1) throw new Error("Truncated integer");
+    const digits = new TextDecoder().decode(buf.subarray(pos + 1, end));
+    if (!/^-?\d+$/.test(digits)) throw new Error(`Bad integer at ${pos}`);
+    return [Number(digits), end + 1];
+  }
+  if (c === 0x6c) { // l<items>e
+    const list: unknown[] = [];
+    pos++;
+    while (buf[pos] !== 0x65) {
+      if (pos >= buf.length) throw new Error("Truncated list");
+      const [item, next] = bdecode(buf, pos, span);
+      list.push(item);
+      pos = next;
+    }
+    return [list, pos + 1];
+  }
+  if (c === 0x64) { // d<key><value>e
+    const dict: Record<string, unknown> = {};
+    pos++;
+    while (buf[pos] !== 0x65) {
+      if (pos >= buf.length) throw new Error("Truncated dictionary");
+      const [key, valueStart] = bdecode(buf, pos, span);
+      if (!(key instanceof Uint8Array)) throw new Error(`Dictionary key at ${pos} is not a string`);
+      const name = new TextDecoder().decode(key);
+      const [value, next] = bdecode(buf, valueStart, span);
+      if (name === "info" && !span.info) span.info = [valueStart, next];
+      dict[name] = value;
+      pos = next;
+    }
+    return [dict, pos + 1];
+  }
+  if (c !== undefined && c >= 0x30 && c <= 0x39) { // <length>:<bytes>
+    const colon = buf.indexOf(0x3a, pos);
+    if (colon === -1) throw new Error("Truncated string");
+    const length = new TextDecoder().decode(buf.subarray(pos, colon));
+    if (!/^\d+$/.test(length)) throw new Error(`Bad string length at ${pos}`);
+    const start = colon + 1;
+    const end = start + Number(length);
+    if (end > buf.length) throw new Error("Truncated string");
+    return [buf.subarray(start, end), end];
+  }
+  throw new Error(`Unexpected byte at ${pos}`);
+}
+
+/** A decoded bencode dictionary, or undefined for any other value */
+function bdict(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === "object" && !Array.isArray(value) && !(value instanceof Uint8Array)
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
+/** Info hash, name, size and trackers of a .torrent file's contents */
+export function parseTorrentFile(bytes: Uint8Array): Omit<TorrentSource, "torrentFile"> {
+  const span: { info?: [number, number] } = {};
+  let meta: Record<string, unknown> | undefined;
+  try {
+    meta = bdict(bdecode(bytes, 0, span)[0]);
+  } catch (err: any) {
+    throw new Error(`Not a valid .torrent file: ${err.message}`);
+  }
+  const info = bdict(meta?.info);
+  if (!meta || !info || !span.info) throw new Error("Not a valid .torrent file: no info dictionary");
+
+  const text = (value: unknown) => (value instanceof Uint8Array ? new TextDecoder().decode(value) : undefined);
+  const infoHash = createHash("sha1").update(bytes.subarray(...span.info)).digest("hex");
+  const name = text(info["name.utf-8"]) ?? text(info.name);
+  const size = Array.isArray(info.files)
+    ? info.files.reduce((sum: number, f: unknown) => sum + (Number(bdict(f)?.length) || 0), 0)
+    : Number(info.length) || undefined;
+  const tiers: unknown[] = Array.isArray(meta["announce-list"]) ? meta["announce-list"].flat() : [];
+  const trackers = [...new Set([text(meta.announce), ...tiers.map(text)].filter((t): t is string => !!t))];
+  return { infoHash, name, size, trackers, magnet: sourceMagnet(infoHash, name, trackers) };
+}
+
+/** A magnet link, a path to a .torrent file, or a bare 40-character info hash */
+async function readTorrentSource(input: string): Promise<TorrentSource> {
+  const value = input.trim().replace(/^["']|["']$/g, ""); // Paths dragged into a terminal come quoted
+  if (/^magnet:/i.test(value)) return parseMagnet(value);
+  if (/^[0-9a-f]{40}$/i.test(value)) return parseMagnet(`magnet:?xt=urn:btih:${value}`);
+
+  const path = resolve(value.replace(/^~(?=\/|$)/, homedir()));
+  const file = Bun.file(path);
+  if (!(await file.exists())) throw new Error(`Not a magnet link, info hash or .torrent file: ${input}`);
+  return { ...parseTorrentFile(new Uint8Array(await file.arrayBuffer())), torrentFile: path };
+}
+
+/**
+ * The catalog movie a torrent belongs to: one whose torrents have its info
+ * hash, else one whose title matches its name. Checks cached lists first, then
+ * searches the catalog unless offline
+ */
+async function identifyTorrent(
+  source: TorrentSource,
+): Promise<{ movie?: Movie; matchedBy?: "hash" | "name"; torrent: Torrent }> {
+  const guess = parseReleaseName(source.name ?? "");
+  // Without a name only the hash can match; an empty title would fuzzy-match anything
+  const find = (movies: Movie[]) => guess.title
+    ? matchMovie(guess, movies, source.infoHash)
+    : matchMovie(guess, movies.filter((m) => m.torrents?.some((t) => t.hash.toLowerCase() === source.infoHash)), source.infoHash);
+
+  let match = find((await cachedMovies()).movies);
+  if (match?.matchedBy !== "hash" && !config.offline && guess.title) {
+    const results = await searchMovies(guess.title).catch(() => null);
+    match = find(results?.data.movies ?? []) ?? match;
+  }
+
+  const listed = match?.movie.torrents?.find((t) => t.hash.toLowerCase() === source.infoHash);
+  const torrent: Torrent = listed ?? {
+    url: "",
+    hash: source.infoHash,
+    quality: guess.quality ?? "unknown",
+    type: "",
+    seeds: 0,
+    peers: 0,
+    size: source.size ? formatBytes(source.size) : "unknown",
+    size_bytes: source.size ?? 0,
+    video_codec: "",
+    bit_depth: "",
+    audio_channels: "",
+  };
+  return { ...match, torrent };
+}
+
+// --- Clipboard ---
+
+/** Clipboard commands worth trying here, best first; empty when only OSC 52 or printing can work */
+export function clipboardCommands(
+  platform: string = process.platform,
+  env: Record<string, string | undefined> = process.env,
+  which: (command: string) => boolean = (command) => !!Bun.which(command),
+): string[][] {
+  // Over SSH, pbcopy would fill the remote Mac's clipboard; X11 forwarding sets DISPLAY, so xclip still works
+  const remote = !!(env.SSH_TTY || env.SSH_CONNECTION);
+  const candidates = platform === "darwin" ? (remote ? [] : [["pbcopy"]])
+    : platform === "win32" ? [["clip"]]
+    : [
+      ...(env.WAYLAND_DISPLAY ? [["wl-copy"]] : []),
+      ...(env.DISPLAY ? [["xclip", "-selection", "clipboard"], ["xsel", "--clipboard", "--input"]] : []),
+      ...(env.WSL_DISTRO_NAME ? [["clip.exe"]] : []),
+    ];
+  return candidates.filter(([command]) => which(command!));
+}
+
+/** Escape asking the terminal itself to set the clipboard; tmux and screen need it wrapped to pass it on */
+export function osc52Sequence(text: string, env: Record<string, string | undefined> = process.env): string {
+  const sequence = `\x1b]52;c;${Buffer.from(text).toString("base64")}\x07`;
+  if (env.TMUX) return `\x1bPtmux;${sequence.replaceAll("\x1b", "\x1b\x1b")}\x1b\\`;
+  if (env.TERM?.startsWith("screen")) return `\x1bP${sequence}\x1b\\`;
+  return sequence;
+}
+
+/** Terminals cap OSC 52 payloads (base64 adds a third); stay well under the usual limits */
+const OSC52_MAX_BYTES = 50_000;
+
+/**
+ * Put text on the clipboard with the first clipboard command that works, else
+ * through the terminal (OSC 52). "osc52" can't be confirmed: terminals don't answer
+ */
+async function copyToClipboard(text: string): Promise<"command" | "osc52" | "none"> {
+  for (const [command, ...args] of clipboardCommands()) {
+    try {
+      const proc = Bun.spawn([command!, ...args], { stdin: "pipe", stdout: "ignore", stderr: "ignore" });
+      proc.stdin.write(text);
+      proc.stdin.end();
+      if ((await proc.exited) === 0) return "command";
+    } catch {} // Failed to start — try the next one
+  }
+  if (process.stdout.isTTY && Buffer.byteLength(text) <= OSC52_MAX_BYTES) {
+    process.stdout.write(osc52Sequence(text));
+    return "osc52";
+  }
+  return "none";
+}
+
+/** Copy `text` and say so; print it too when it may not have reached the clipboard */
+async function copyText(text: string, what: string): Promise<void> {
+  const method = await copyToClipboard(text);
+  if (method === "command") {
+    console.log(chalk.green(`\n  ${what} copied to clipboard!\n`));
+    return;
+  }
+  console.log(method === "osc52"
+    ? chalk.green(`\n  ${what} sent to your terminal's clipboard.`) + chalk.dim(" If it didn't arrive, your terminal may not support OSC 52:")
+    : chalk.yellow(`\n  No clipboard available. ${what}:`));
+  console.log(chalk.cyan(`  ${text}\n`));
+}
+
+// --- Display Helpers ---
+
+export function formatRuntime(minutes: number): string {
+  if (!minutes) return "N/A";
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return h > 0 ? `${h}h ${m}m` : `${m}m`;
+}
+
+export function formatAgo(timestamp: number | undefined, now = Date.now()): string {
+  if (!timestamp) return "never";
+  const seconds = Math.max(0, Math.floor((now - timestamp) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return `${Math.floor(seconds / 86400)}d ago`;
+}
+
+function healthColor(seeds: number): (text: string) => string {
+  if (seeds >= 50) return chalk.green;
+  if (seeds >= 10) return chalk.yellow;
+  return chalk.red;
+}
+
+/** Marks movies already in the library */
+function ownedMark(movie: Movie): string {
+  return library.has(movie) ? chalk.green(" ✓") : "";
+}
+
+interface ExtraColumn {
+  head: string;
+  width: number;
+  /** One cell per movie, same order */
+  cells: string[];
+}
+
+function displayMovieTable(movies: Movie[], extra?: ExtraColumn): void {
+  const head = [
+    chalk.dim("#"),
+    chalk.bold("Title"),
+    chalk.dim("Year"),
+    chalk.yellow("Rating"),
+    chalk.cyan("Quality"),
+    chalk.green("Seeds"),
+    chalk.dim("Genre"),
+  ];
+  const colWidths = [5, 32, 7, 9, 9, 8, 22];
+  if (extra) {
+    head.push(extra.head);
+    colWidths.push(extra.width);
+  }
+
+  const table = new Table({
+    head,
+    colWidths,
+    style: { head: [], border: ["gray"], compact: false },
+    wordWrap: true,
+  });
+
+  for (let i = 0; i < movies.length; i++) {
+    const m = movies[i]!;
+    const rating = m.rating ? chalk.yellow(`★ ${m.rating}`) : chalk.dim("--");
+    const genres = m.genres?.slice(0, 2).join(", ") || "N/A";
+    const bestTorrent = m.torrents?.reduce((best, t) => (t.seeds > (best?.seeds || 0) ? t : best), m.torrents[0]);
+    const seeds = bestTorrent ? healthColor(bestTorrent.seeds)(`↑${bestTorrent.seeds}`) : chalk.dim("--");
+    const quality = bestTorrent ? chalk.cyan(bestTorrent.quality) : chalk.dim("--");
+
+    const row = [
+      chalk.dim(`${i + 1}`),
+      chalk.bold.white(m.title) + ownedMark(m),
+      chalk.dim(`${m.year}`),
+      rating,
+      quality,
+      seeds,
+      chalk.dim(genres),
+    ];
+    if (extra) row.push(extra.cells[i] ?? "");
+    table.push(row);
+  }
+
+  console.log(table.toString());
+}
+
+async function displayMovieDetail(movie: Movie, cache?: CacheInfo): Promise<void> {
+  console.log();
+
+  // Poster image
+  if (movie.medium_cover_image) {
+    const poster = await fetchPosterImage(movie.medium_cover_image);
+    if (poster) {
+      console.log(poster);
+    }
+  }
+
+  // Title bar
+  const titleLine = chalk.bold.white(movie.title) + chalk.dim(` (${movie.year})`) + "  " + chalk.dim(movie.imdb_code) + cacheLabel(cache);
+  console.log(boxen(titleLine, {
+    borderStyle: "double",
+    borderColor: "magenta",
+    padding: { top: 0, bottom: 0, left: 1, right: 1 },
+  }));
+
+  // Info row
+  const ratingVal = movie.rating || 0;
+  const ratingBarFull = Math.round(ratingVal);
+  const ratingBar = chalk.yellow("█".repeat(ratingBarFull)) + chalk.dim("░".repeat(10 - ratingBarFull));
+  const infoTable = new Table({
+    style: { head: [], border: ["gray"], compact: true },
+    colWidths: [22, 12, 10, 30],
+  });
+  infoTable.push([
+    `${chalk.yellow(`★ ${ratingVal}`)} ${ratingBar}`,
+    chalk.white(formatRuntime(movie.runtime)),
+    chalk.white(movie.language?.toUpperCase() || "EN"),
+    chalk.dim(movie.genres?.join(", ") || "N/A"),
+  ]);
+  console.log(infoTable.toString());
+
+  if (movie.yt_trailer_code) {
+    console.log(chalk.dim(`  Trailer: https://youtube.com/watch?v=${movie.yt_trailer_code}`));
+  }
+  const owned = library.find(movie);
+  if (owned.length) {
+    const copies = owned.map((e) => `${e.quality ?? "?"} · ${formatBytes(e.size)}`).join(", ");
+    console.log(chalk.green("  ✓ In your library: ") + chalk.dim(copies));
+  }
+
+  // Synopsis
+  if (movie.summary) {
+    const wrapWidth = 68;
+    const words = movie.summary.split(" ");
+    const lines: string[] = [];
+    let line = "";
+    for (const word of words) {
+      if ((line + " " + word).length > wrapWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = line ? line + " " + word : word;
+      }
+    }
+    if (line) lines.push(line);
+    const synopsisText = lines.slice(0, 6).join("\n") + (lines.length > 6 ? chalk.dim("\n...") : "");
+    console.log(boxen(synopsisText, {
+      title: chalk.bold(" Synopsis "),
+      titleAlignment: "left",
+      borderStyle: "round",
+      borderColor: "gray",
+      dimBorder: true,
+      padding: { top: 0, bottom: 0, left: 1, right: 1 },
+    }));
+  }
+
+  // Torrents
+  if (movie.torrents?.length) {
+    const torrentTable = new Table({
+      head: [
+        chalk.cyan("Quality"),
+        chalk.dim("Type"),
+        chalk.white("Size"),
+        chalk.green("Seeds"),
+        chalk.red("Peers"),
+        chalk.dim("Codec"),
+        chalk.dim("Audio"),
+      ],
+      style: { head: [], border: ["gray"], compact: false },
+    });
+
+    for (const t of movie.torrents) {
+      torrentTable.push([
+        chalk.cyan.bold(t.quality),
+        chalk.dim(t.type),
+        t.size,
+        healthColor(t.seeds)(`↑${t.seeds}`),
+        chalk.dim(`↓${t.peers}`),
+        chalk.dim(t.video_codec || "--"),
+        chalk.dim(t.audio_channels ? `${t.audio_channels}ch` : "--"),
+      ]);
+    }
+
+    console.log(boxen(torrentTable.toString(), {
+      title: chalk.bold(" Torrents "),
+      titleAlignment: "left",
+      borderStyle: "round",
+      borderColor: "cyan",
+      dimBorder: true,
+      padding: { top: 0, bottom: 0, left: 0, right: 0 },
+    }));
+  } else {
+    console.log(chalk.dim("  No torrents available"));
+  }
+  console.log();
+}
+
+// --- Menu Actions ---
+
+const SORT_OPTIONS = [
+  { name: "Date Added", value: "date_added" },
+  { name: "Trending", value: "like_count" },
+  { name: "Rating", value: "rating" },
+  { name: "Seeds", value: "seeds" },
+  { name: "Year", value: "year" },
+  { name: "Title", value: "title" },
+];
+
+const GENRE_OPTIONS = [
+  "all", "action", "adventure", "animation", "biography", "comedy", "crime",
+  "documentary", "drama", "family", "fantasy", "history", "horror", "music",
+  "mystery", "romance", "sci-fi", "sport", "thriller", "war", "western",
+];
+
+async function browseMovies(): Promise<void> {
+  const { sortBy } = await inquirer.prompt([
+    { type: "list", name: "sortBy", message: "Sort by:", choices: SORT_OPTIONS },
+  ]);
 
   const { genre } = await inquirer.prompt([
     {
       type: "list",
-      name: "genre",
-      message: "Genre:",
-      choices: GENRE_OPTIONS.map((g) => ({
-        name: g === "all" ? "All Genres" : g.charAt(0).toUpperCase() + g.slice(1),
-        value: g,
+      name: "genre",
+      message: "Genre:",
+      choices: GENRE_OPTIONS.map((g) => ({
+        name: g === "all" ? "All Genres" : g.charAt(0).toUpperCase() + g.slice(1),
+        value: g,
+      })),
+    },
+  ]);
+
+  await paginatedList(
+    (page) => {
+      const params: ListOptions = { sort_by: sortBy, order_by: "desc" };
+      if (genre !== "all") params.genre = genre;
+      return listMovies(page, params);
+    },
+    "Browse",
+  );
+}
+
+/** Download a magnet or .torrent from outside the catalog, with catalog details when it can be matched */
+async function addTorrentAction(): Promise<void> {
+  const { input } = await inquirer.prompt([
+    { type: "input", name: "input", message: "Magnet link, .torrent file or info hash:" },
+  ]);
+  if (!input.trim()) return;
+
+  let source: TorrentSource;
+  try {
+    source = await readTorrentSource(input);
+  } catch (err: any) {
+    console.log(chalk.red(`\n  ${err.message}\n`));
+    return;
+  }
+
+  const spinner = ora("Looking for it in the catalog...").start();
+  const { matchedBy, torrent, ...match } = await identifyTorrent(source);
+  spinner.stop();
+  let movie = match.movie;
+  if (movie && matchedBy === "name") {
+    const { same } = await inquirer.prompt([
+      { type: "confirm", name: "same", message: `Is "${source.name}" ${movie.title} (${movie.year})?`, default: true },
+    ]);
+    if (!same) movie = undefined;
+  }
+
+  const title = movie?.title ?? source.name ?? source.infoHash;
+  console.log(movie
+    ? chalk.green(`\n  ${movie.title} (${movie.year})`) + chalk.dim(matchedBy === "hash" ? " · matched by info hash" : " · matched by name")
+    : chalk.dim(`\n  Not in the catalog; tracking it as "${title}"`));
+
+  if (await downloadTorrent(source.magnet, title, torrent, { movie, torrentFile: source.torrentFile }) && movie) {
+    await promptSubtitleDownload(movie, torrent);
+  }
+}
+
+async function searchAction(): Promise<void> {
+  const { query } = await inquirer.prompt([
+    { type: "input", name: "query", message: "Search movies:" },
+  ]);
+
+  if (!query.trim()) return;
+
+  const spinner = ora("Searching...").start();
+  try {
+    const { movies, cache } = await smartSearch(query.trim());
+    spinner.stop();
+
+    if (!movies.length) {
+      console.log(chalk.yellow(`\n  No results for "${query}".\n`));
+      return;
+    }
+
+    console.log();
+    console.log(contextBar(chalk.bold.magenta("MOVIZONE"), chalk.dim(`Search: "${query}" · ${movies.length} found`) + cacheLabel(cache)));
+    displayMovieTable(movies);
+    console.log(navFooter());
+
+    const choices: any[] = movies.map((m, i) => ({
+      name: `${i + 1}. ${m.title} (${m.year})`,
+      value: `movie_${i}`,
+    }));
+    choices.push({ name: "↩ Back to menu", value: "back" });
+
+    const { action } = await inquirer.prompt([
+      { type: "list", name: "action", message: "Select:", choices, pageSize: 25 },
+    ]);
+
+    if (action.startsWith("movie_")) {
+      const idx = parseInt(action.split("_")[1]);
+      await viewMovie(movies[idx]!);
+    }
+  } catch (err: any) {
+    spinner.stop();
+    if (isExitPromptError(err)) throw err;
+    console.log(chalk.red(`\n  Error: ${err.message}\n`));
+  }
+}
+
+async function viewMovie(movie: Movie, cache?: CacheInfo): Promise<void> {
+  await displayMovieDetail(movie, cache);
+
+  let viewing = true;
+  while (viewing) {
+    const choices: any[] = [];
+
+    const [owned] = library.find(movie);
+    if (owned) choices.push({ name: `Play from library (${owned.quality ?? "?"})`, value: "play" });
+    if (movie.torrents?.length) {
+      for (const t of movie.torrents) {
+        choices.push({
+          name: `Download ${t.quality} (${t.size}, ↑${t.seeds})`,
+          value: `dl_${t.hash}`,
+        });
+      }
+    }
+
+    if (movie.torrents?.length) {
+      choices.push({ name: "Download and choose files", value: "pick" });
+      choices.push({ name: "Stream now", value: "stream" });
+    }
+    choices.push({ name: "Copy a link (magnet, IMDb, trailer)", value: "copy" });
+    choices.push({ name: "Download subtitles", value: "subtitles" });
+    choices.push(watchlist.has(movie.id)
+      ? { name: "Remove from watchlist", value: "unwatch" }
+      : { name: "Add to watchlist", value: "watch" });
+    choices.push({ name: "Similar movies", value: "similar" });
+    choices.push({ name: "Back", value: "back" });
+
+    const { action } = await inquirer.prompt([
+      { type: "list", name: "action", message: "Action:", choices },
+    ]);
+
+    if (action === "back") {
+      viewing = false;
+    } else if (action === "play" && owned) {
+      playFile(owned.path);
+    } else if (action === "similar") {
+      await showSimilar(movie);
+    } else if (action === "stream" || action === "pick") {
+      const { torrent } = await inquirer.prompt([{
+        type: "list",
+        name: "torrent",
+        message: action === "stream" ? "Stream which quality?" : "Download which quality?",
+        default: preferredTorrent(movie),
+        choices: movie.torrents.map((t) => ({ name: `${t.quality} · ${t.size} · ↑${t.seeds} ↓${t.peers}`, value: t })),
+      }]);
+      const magnet = buildMagnet(torrent.hash, movie.title);
+      if (action === "stream") {
+        await streamTorrent(magnet, movie, torrent);
+      } else {
+        if (await downloadTorrent(magnet, movie.title, torrent, { pickFiles: true, movie })) {
+          await promptSubtitleDownload(movie, torrent);
+        }
+      }
+      viewing = false;
+    } else if (action === "copy") {
+      await copyMovieLink(movie);
+    } else if (action === "subtitles") {
+      await promptSubtitleDownload(movie, undefined, true);
+    } else if (action === "watch") {
+      const { note } = await inquirer.prompt([
+        { type: "input", name: "note", message: "Note (optional):" },
+      ]);
+      try {
+        await watchlist.add(movie, note.trim());
+        console.log(chalk.green(`\n  Added "${movie.title}" to your watchlist.\n`));
+      } catch (err: any) {
+        console.log(chalk.yellow(`\n  ${err.message}\n`));
+      }
+    } else if (action === "unwatch") {
+      try {
+        await watchlist.remove(movie.id);
+        console.log(chalk.dim(`\n  Removed "${movie.title}" from your watchlist.\n`));
+      } catch (err: any) {
+        console.log(chalk.yellow(`\n  ${err.message}\n`));
+      }
+    } else if (action.startsWith("dl_")) {
+      const hash = action.slice(3);
+      const torrent = movie.torrents?.find((t) => t.hash === hash);
+      const magnet = buildMagnet(hash, movie.title);
+      if (await downloadTorrent(magnet, movie.title, torrent, { movie })) {
+        await promptSubtitleDownload(movie, torrent);
+      }
+      viewing = false;
+    }
+  }
+}
+
+async function selectTorrentAndCopyMagnet(movie: Movie): Promise<void> {
+  if (!movie.torrents?.length) {
+    console.log(chalk.yellow("\n  No torrents available.\n"));
+    return;
+  }
+
+  const { torrent } = await inquirer.prompt([
+    {
+      type: "list",
+      name: "torrent",
+      message: "Select quality:",
+      choices: movie.torrents.map((t) => ({
+        name: `${t.quality} · ${t.size} · ↑${t.seeds} ↓${t.peers}`,
+        value: t,
       })),
     },
   ]);
 
-  await paginatedList(
-    (page) => {
-      const params: Record<string, any> = { sort_by: sortBy, order_by: "desc" };
-      if (genre !== "all") params.genre = genre;
-      return listMovies(page, params);
-    },
-    "Browse",
-  );
+  await copyText(buildMagnet(torrent.hash, movie.title), "Magnet link");
+}
+
+async function copyMovieLink(movie: Movie): Promise<void> {
+  const choices = [
+    { name: "Magnet link", value: "magnet" },
+    ...(movie.imdb_code ? [{ name: "IMDb page", value: "imdb" }] : []),
+    ...(movie.yt_trailer_code ? [{ name: "Trailer", value: "trailer" }] : []),
+    { name: "Back", value: "back" },
+  ];
+  const { link } = await inquirer.prompt([
+    { type: "list", name: "link", message: "Copy which link?", choices },
+  ]);
+
+  if (link === "magnet") await selectTorrentAndCopyMagnet(movie);
+  else if (link === "imdb") await copyText(`https://www.imdb.com/title/${movie.imdb_code}/`, "IMDb link");
+  else if (link === "trailer") await copyText(`https://youtube.com/watch?v=${movie.yt_trailer_code}`, "Trailer link");
+}
+
+async function showSimilar(movie: Movie): Promise<void> {
+  const spinner = ora("Finding similar movies...").start();
+  try {
+    const res = await getMovieSuggestions(movie.id);
+    spinner.stop();
+
+    if (!res.data.movies?.length) {
+      console.log(chalk.yellow("\n  No suggestions found.\n"));
+      return;
+    }
+
+    console.log();
+    console.log(contextBar(chalk.bold.magenta("MOVIZONE"), chalk.dim(`Similar to "${movie.title}"`) + cacheLabel(res.cache)));
+    displayMovieTable(res.data.movies);
+    console.log(navFooter());
+
+    const choices: any[] = res.data.movies.map((m, i) => ({
+      name: `${i + 1}. ${m.title} (${m.year})`,
+      value: `movie_${i}`,
+    }));
+    choices.push({ name: "Back", value: "back" });
+
+    const { action } = await inquirer.prompt([
+      { type: "list", name: "action", message: "Select:", choices },
+    ]);
+
+    if (action.startsWith("movie_")) {
+      const idx = parseInt(action.split("_")[1]);
+      await viewMovie(res.data.movies[idx]!);
+    }
+  } catch (err: any) {
+    spinner.stop();
+    if (isExitPromptError(err)) throw err;
+    console.log(chalk.red(`\n  Error: ${err.message}\n`));
+  }
+}
+
+// --- Shared Paginated List ---
+
+async function paginatedList(
+  fetcher: (page: number) => Promise<ListResponse>,
+  label: string,
+): Promise<void> {
+  let page = 1;
+  let browsing = true;
+
+  while (browsing) {
+    const spinner = ora("Loading...").start();
+    try {
+      const res = await fetcher(page);
+      spinner.stop();
+
+      if (!res.data.movies?.length) {
+        console.log(chalk.yellow("\n  No movies found.\n"));
+        return;
+      }
+
+      console.log();
+      console.log(contextBar(chalk.bold.magenta("MOVIZONE"), chalk.dim(`${label} · Page ${page} · ${res.data.movie_count.toLocaleString()} total`) + cacheLabel(res.cache)));
+      displayMovieTable(res.data.movies);
+      console.log(navFooter());
+
+      const choices: any[] = res.data.movies.map((m, i) => ({
+        name: `${i + 1}. ${m.title} (${m.year})`,
+        value: `movie_${i}`,
+      }));
+      if (page > 1) choices.push({ name: "Previous page", value: "prev" });
+      if (res.data.movies.length >= config.pageSize) choices.push({ name: "Next page", value: "next" });
+      choices.push({ name: "Back to menu", value: "back" });
+
+      const { action } = await inquirer.prompt([
+        { type: "list", name: "action", message: "Select:", choices, pageSize: 25 },
+      ]);
+
+      if (action === "back") browsing = false;
+      else if (action === "next") page++;
+      else if (action === "prev") page--;
+      else if (action.startsWith("movie_")) {
+        const idx = parseInt(action.split("_")[1]);
+        await viewMovie(res.data.movies[idx]!);
+      }
+    } catch (err: any) {
+      spinner.stop();
+      if (isExitPromptError(err)) throw err;
+      console.log(chalk.red(`\n  Error: ${err.message}\n`));
+      browsing = false;
+    }
+  }
+}
+
+// --- Downloads View ---
+
+function downloadStatusIcon(status: DownloadState["status"]): string {
+  switch (status) {
+    case "queued": return chalk.dim("⋯");
+    case "connecting": return chalk.yellow("◌");
+    case "downloading": return chalk.cyan("▼");
+    case "paused": return chalk.yellow("‖");
+    case "interrupted": return chalk.magenta("↯");
+    case "seeding": return chalk.green("▲");
+    case "done": return chalk.green("✓");
+    case "error": return chalk.red("✗");
+    case "timeout": return chalk.yellow("⏱");
+    case "stalled": return chalk.yellow("⌛");
+  }
+}
+
+function downloadProgressBar(progress: number, width = 20): string {
+  const filled = Math.round(progress * width);
+  return chalk.green("█".repeat(filled)) + chalk.dim("░".repeat(width - filled));
+}
+
+function renderDownloadsScreen(downloads: DownloadState[]): void {
+  const queue = downloads
+    .filter((d) => d.status === "queued")
+    .sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0));
+
+  const table = new Table({
+    head: [
+      chalk.dim("#"),
+      chalk.bold("Title"),
+      chalk.cyan("Quality"),
+      chalk.white("Progress"),
+      chalk.cyan("Speed"),
+      chalk.white("ETA"),
+      chalk.dim("Status"),
+    ],
+    colWidths: [5, 28, 10, 28, 12, 10, 12],
+    style: { head: [], border: ["gray"], compact: false },
+    wordWrap: true,
+  });
+
+  for (let i = 0; i < downloads.length; i++) {
+    const d = downloads[i]!;
+    const pct = (d.progress * 100).toFixed(1) + "%";
+    const progressCell = d.status === "downloading"
+      ? `${downloadProgressBar(d.progress)} ${chalk.bold(pct)}`
+      : d.status === "paused" || d.status === "interrupted"
+        ? chalk.dim(`${downloadProgressBar(d.progress)} ${pct}`)
+      : d.status === "done" || d.status === "seeding"
+        ? `${downloadProgressBar(1)} ${chalk.bold("100%")}`
+        : chalk.dim("--");
+    const limitNote = d.effectiveLimit ? "\n" + chalk.dim(`≤ ${formatSpeed(d.effectiveLimit)}`) : "";
+    const speedCell = d.status === "downloading"
+      ? chalk.cyan(formatSpeed(d.speed)) + limitNote
+      : d.status === "seeding"
+        ? chalk.green(`↑ ${formatSpeed(d.uploadSpeed ?? 0)}`)
+        : d.status === "connecting" ? chalk.dim("--") + limitNote : chalk.dim("--");
+    // While seeding, the ETA column shows how much has been given back
+    const etaCell = d.status === "downloading"
+      ? formatEta(d.eta)
+      : d.status === "seeding" ? chalk.green(`⇅ ${(d.ratio ?? 0).toFixed(2)}`) : chalk.dim("--");
+    const retries = d.retries ? chalk.yellow(` ↻${d.retries}`) : "";
+    const statusText = isFailed(d.status)
+      ? chalk.red(d.error || d.status) + retries
+      : d.status === "queued"
+        ? chalk.dim(`queued #${queue.indexOf(d) + 1}`)
+        : d.status === "seeding"
+          ? `seeding${config.seedRatio ? chalk.dim(` to ${config.seedRatio}`) : ""}`
+          : d.status + retries;
+    const statusCell = `${downloadStatusIcon(d.status)} ${statusText}`;
+
+    table.push([
+      chalk.dim(`${i + 1}`),
+      chalk.white(d.movieTitle),
+      chalk.cyan(d.quality),
+      progressCell,
+      speedCell,
+      etaCell,
+      statusCell,
+    ]);
+  }
+
+  const limits = [
+    config.downloadLimit ? `↓ ${formatSpeed(config.downloadLimit * 1024)}` : "",
+    config.uploadLimit ? `↑ ${formatSpeed(config.uploadLimit * 1024)}` : "",
+  ].filter(Boolean).join(" ");
+
+  console.log(boxen(table.toString(), {
+    title: chalk.bold(" Downloads ") + (limits ? chalk.dim(`· limit ${limits} `) : ""),
+    titleAlignment: "left",
+    borderStyle: "round",
+    borderColor: "cyan",
+    dimBorder: true,
+    padding: { top: 0, bottom: 0, left: 0, right: 0 },
+  }));
+
+  // Stream URLs with how much is buffered ahead of the player
+  const streams = downloads.filter((d) => d.streamUrl);
+  if (streams.length) {
+    for (const d of streams) {
+      const buffer = d.status === "done" || d.status === "seeding"
+        ? chalk.green("fully downloaded")
+        : d.bufferAhead === undefined
+          ? chalk.dim("buffer --")
+          : (d.bufferAhead >= 20 * 1024 * 1024 ? chalk.green : d.bufferAhead >= 5 * 1024 * 1024 ? chalk.yellow : chalk.red)(
+            `buffer ${formatBytes(d.bufferAhead)} ahead`,
+          );
+      console.log(`  ${chalk.cyan("▶")} ${d.movieTitle}: ${chalk.cyan(d.streamUrl!)}  ${buffer}`);
+    }
+    console.log();
+  }
+
+  const warned = downloads.filter((d) => d.warning);
+  if (warned.length) {
+    for (const d of warned) console.log(chalk.yellow(`  ⚠ ${d.movieTitle}: ${d.warning}`));
+    console.log();
+  }
+
+  // Show file paths for completed downloads
+  const doneWithFiles = downloads.filter((d) => (d.status === "done" || d.status === "seeding") && d.filePath);
+  if (doneWithFiles.length) {
+    for (const d of doneWithFiles) {
+      console.log(chalk.dim(`  ✓ ${d.movieTitle}: ${d.filePath}`));
+      if (d.organizeError) console.log(chalk.yellow(`    Not moved to the library: ${d.organizeError}`));
+      if (d.nfoError) console.log(chalk.yellow(`    No NFO written: ${d.nfoError}`));
+      if (d.subtitles) console.log(`    ${formatSubtitleStatus(d.subtitles)}`);
+      if (d.subtitleError) console.log(chalk.yellow(`    No subtitles fetched: ${d.subtitleError}`));
+    }
+    console.log();
+  }
+}
+
+function waitForKey(timeoutMs?: number): Promise<string | null> {
+  return new Promise((resolve) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    function cleanup() {
+      if (timer) clearTimeout(timer);
+      process.stdin.removeAllListeners("data");
+      if (process.stdin.isTTY) process.stdin.setRawMode(false);
+      process.stdin.pause();
+    }
+
+    if (timeoutMs !== undefined) {
+      timer = setTimeout(() => {
+        cleanup();
+        resolve(null);
+      }, timeoutMs);
+    }
+
+    if (process.stdin.isTTY) process.stdin.setRawMode(true);
+    process.stdin.resume();
+    process.stdin.once("data", (data: Buffer) => {
+      cleanup();
+      resolve(data.toString());
+    });
+  });
 }
 
-async function searchAction(): Promise<void> {
-  const { query } = await inquirer.prompt([
-    { type: "input", name: "query", message: "Search movies:" },
-  ]);
+async function editSpeedLimits(downloads: DownloadState[]): Promise<void> {
+  const kbps = (value: number) => (value ? formatSpeed(value * 1024) : "unlimited");
+  const { target } = await inquirer.prompt([{
+    type: "list",
+    name: "target",
+    message: "Change which limit?",
+    choices: [
+      { name: `All downloads, download (${kbps(config.downloadLimit)})`, value: "downloadLimit" },
+      { name: `All downloads, upload (${kbps(config.uploadLimit)})`, value: "uploadLimit" },
+      ...downloads.map((d) => ({ name: `${d.movieTitle} (${kbps(d.speedLimit ?? 0)})`, value: d.id })),
+      { name: "Never mind", value: "" },
+    ],
+  }]);
+  if (!target) return;
 
-  if (!query.trim()) return;
+  if (target === "downloadLimit" || target === "uploadLimit") {
+    await editSetting(SETTINGS.find((s) => s.key === target)!);
+    return;
+  }
 
-  const spinner = ora("Searching...").start();
-  try {
-    const movies = await smartSearch(query.trim());
-    spinner.stop();
+  const { answer } = await inquirer.prompt([{
+    type: "input",
+    name: "answer",
+    message: "Limit in KB/s (0 = unlimited):",
+    default: String(downloads.find((d) => d.id === target)?.speedLimit ?? 0),
+    validate: (input: string) => {
+      try {
+        parseSettingValue("number", input);
+        return true;
+      } catch (err: any) {
+        return err.message;
+      }
+    },
+  }]);
+  downloadManager.setSpeedLimit(target, parseSettingValue("number", answer) as number);
+}
 
-    if (!movies.length) {
-      console.log(chalk.yellow(`\n  No results for "${query}".\n`));
+async function chooseFiles(download: DownloadState): Promise<void> {
+  const { indices } = await inquirer.prompt([{
+    type: "checkbox",
+    name: "indices",
+    message: `Files to download for ${download.movieTitle}:`,
+    pageSize: 15,
+    choices: download.files!.map((f, i) => ({
+      name: `${f.name} ${chalk.dim(`(${formatBytes(f.length)})`)}`,
+      value: i,
+      checked: f.selected,
+    })),
+    validate: (picked: unknown[]) => picked.length > 0 || "Pick at least one file",
+  }]);
+  downloadManager.setFileSelection(download.id, indices);
+}
+
+async function viewDownloads(): Promise<void> {
+  while (true) {
+    const downloads = downloadManager.getDownloads();
+    if (!downloads.length) {
+      console.log(chalk.dim("\n  No downloads yet.\n"));
       return;
     }
 
-    console.log();
-    console.log(contextBar(chalk.bold.magenta("MOVIZONE"), chalk.dim(`Search: "${query}" · ${movies.length} found`)));
-    displayMovieTable(movies);
-    console.log(navFooter());
+    await downloadManager.refreshOrphaned();
 
-    const choices: any[] = movies.map((m, i) => ({
-      name: `${i + 1}. ${m.title} (${m.year})`,
-      value: `movie_${i}`,
-    }));
-    choices.push({ name: "↩ Back to menu", value: "back" });
+    const active = downloadManager.getActive();
+    const queued = downloadManager.getQueued();
+    const paused = [...downloadManager.getPaused(), ...downloadManager.getInterrupted()];
+    const cancellable = [...active, ...queued, ...paused];
+    const pausable = [...active, ...paused];
+    const seeding = downloadManager.getSeeding();
+    const withFiles = cancellable.filter((d) => d.files?.length);
+    const streamable = downloads.filter((d) => d.magnet && (d.streamUrl || cancellable.includes(d) || seeding.includes(d)));
+    const inactive = downloads.filter((d) => isTerminal(d.status));
+    const doneWithFiles = downloads.filter((d) => d.status === "done" && d.filePath);
+    const withPaths = downloads.filter((d) => (d.status === "done" || d.status === "seeding") && d.filePath);
+    const missingSubtitles = config.offline ? [] : doneWithFiles.filter((d) => d.subtitles?.missing.length);
 
-    const { action } = await inquirer.prompt([
-      { type: "list", name: "action", message: "Select:", choices, pageSize: 25 },
-    ]);
+    // Clear screen and render
+    process.stdout.write("\x1b[2J\x1b[H");
+    renderDownloadsScreen(downloads);
 
-    if (action.startsWith("movie_")) {
-      const idx = parseInt(action.split("_")[1]);
-      await viewMovie(movies[idx]!);
+    // Key hints footer
+    const hints: string[] = [];
+    if (pausable.length) hints.push(chalk.bold("p") + chalk.dim(" Pause/resume"));
+    if (seeding.length) hints.push(chalk.bold("s") + chalk.dim(" Stop seeding"));
+    if (streamable.length) hints.push(chalk.bold("w") + chalk.dim(" Watch now"));
+    if (withFiles.length) hints.push(chalk.bold("f") + chalk.dim(" Choose files"));
+    if (cancellable.length) hints.push(chalk.bold("c") + chalk.dim(" Cancel"));
+    if (queued.length) hints.push(chalk.bold("o") + chalk.dim(" Reorder queue"));
+    hints.push(chalk.bold("l") + chalk.dim(" Speed limits"));
+    if (inactive.length) hints.push(chalk.bold("x") + chalk.dim(" Clear"));
+    if (doneWithFiles.length) hints.push(chalk.bold("d") + chalk.dim(" Delete file"));
+    if (withPaths.length) hints.push(chalk.bold("y") + chalk.dim(" Copy path"));
+    if (missingSubtitles.length) hints.push(chalk.bold("t") + chalk.dim(" Fetch missing subtitles"));
+    hints.push(chalk.bold("b") + chalk.dim(" Back"));
+
+    console.log(boxen(
+      "  " + hints.join("   ") + "  ",
+      { borderStyle: "single", borderColor: "gray", dimBorder: true, padding: 0 },
+    ));
+
+    const refreshing = active.length > 0 || queued.length > 0 || seeding.length > 0;
+    if (refreshing) {
+      console.log(chalk.dim("  Auto-refreshing..."));
     }
-  } catch (err: any) {
-    spinner.stop();
-    if (isExitPromptError(err)) throw err;
-    console.log(chalk.red(`\n  Error: ${err.message}\n`));
+
+    // Wait for keypress (auto-refresh every 1s while downloads are running or waiting)
+    const key = await waitForKey(refreshing ? 1000 : undefined);
+
+    if (key === null) continue; // Timeout → auto-refresh
+
+    const k = key.charAt(0);
+
+    if (k === "b" || k === "q" || k === "\x1b") return;
+    if (k === "\x03") exitGracefully();
+
+    // Cancel active or queued download
+    if (k === "c" && cancellable.length) {
+      if (cancellable.length === 1) {
+        await downloadManager.cancelDownload(cancellable[0]!.id);
+      } else {
+        const { id } = await inquirer.prompt([{
+          type: "list",
+          name: "id",
+          message: "Cancel which download?",
+          choices: [
+            ...cancellable.map((d) => ({ name: `${d.movieTitle} (${d.quality}, ${d.status})`, value: d.id })),
+            { name: "Never mind", value: "" },
+          ],
+        }]);
+        if (id) await downloadManager.cancelDownload(id);
+      }
+    }
+
+    // Pause a running download or resume a paused one
+    if (k === "p" && pausable.length) {
+      let id = pausable[0]!.id;
+      if (pausable.length > 1) {
+        ({ id } = await inquirer.prompt([{
+          type: "list",
+          name: "id",
+          message: "Pause or resume which download?",
+          choices: [
+            ...pausable.map((d) => ({
+              name: `${d.status === "paused" || d.status === "interrupted" ? "Resume" : "Pause"} ${d.movieTitle} (${d.quality})`,
+              value: d.id,
+            })),
+            { name: "Never mind", value: "" },
+          ],
+        }]));
+      }
+      const d = pausable.find((dl) => dl.id === id);
+      if (d?.status === "paused" || d?.status === "interrupted") downloadManager.resumeDownload(d.id);
+      else if (d) await downloadManager.pauseDownload(d.id);
+    }
+
+    // Stream a download in the player while it keeps downloading
+    if (k === "w" && streamable.length) {
+      let id = streamable[0]!.id;
+      if (streamable.length > 1) {
+        ({ id } = await inquirer.prompt([{
+          type: "list",
+          name: "id",
+          message: "Watch which download?",
+          choices: [
+            ...streamable.map((d) => ({ name: `${d.movieTitle} (${d.quality}, ${(d.progress * 100).toFixed(1)}%)`, value: d.id })),
+            { name: "Never mind", value: "" },
+          ],
+        }]));
+      }
+      const d = streamable.find((dl) => dl.id === id);
+      if (d) {
+        downloadManager.streamDownload(d.id);
+        await playStream(d.id, d.movieTitle);
+        await waitForKey(3000);
+      }
+    }
+
+    // Pick which files of the torrent to download
+    if (k === "f" && withFiles.length) {
+      let id = withFiles[0]!.id;
+      if (withFiles.length > 1) {
+        ({ id } = await inquirer.prompt([{
+          type: "list",
+          name: "id",
+          message: "Choose files for which download?",
+          choices: [
+            ...withFiles.map((d) => ({ name: `${d.movieTitle} (${d.files!.length} files)`, value: d.id })),
+            { name: "Never mind", value: "" },
+          ],
+        }]));
+      }
+      const d = withFiles.find((dl) => dl.id === id);
+      if (d) await chooseFiles(d);
+    }
+
+    // Stop seeding a finished download
+    if (k === "s" && seeding.length) {
+      let id = seeding[0]!.id;
+      if (seeding.length > 1) {
+        ({ id } = await inquirer.prompt([{
+          type: "list",
+          name: "id",
+          message: "Stop seeding which download?",
+          choices: [
+            ...seeding.map((d) => ({ name: `${d.movieTitle} (ratio ${(d.ratio ?? 0).toFixed(2)})`, value: d.id })),
+            { name: "Never mind", value: "" },
+          ],
+        }]));
+      }
+      if (id) await downloadManager.stopSeeding(id);
+    }
+
+    // Adjust global or per-download rate limits while downloads run
+    if (k === "l") {
+      await editSpeedLimits([...active, ...queued, ...paused]);
+    }
+
+    // Change queue priority
+    if (k === "o" && queued.length) {
+      const { id } = await inquirer.prompt([{
+        type: "list",
+        name: "id",
+        message: "Move which download?",
+        choices: [
+          ...queued.map((d, i) => ({ name: `#${i + 1} ${d.movieTitle} (${d.quality})`, value: d.id })),
+          { name: "Never mind", value: "" },
+        ],
+      }]);
+      if (id) {
+        const { to } = await inquirer.prompt([{
+          type: "list",
+          name: "to",
+          message: "Move to:",
+          choices: [
+            { name: "Top of queue", value: "top" },
+            { name: "Up one", value: "up" },
+            { name: "Down one", value: "down" },
+            { name: "Bottom of queue", value: "bottom" },
+          ],
+        }]);
+        downloadManager.moveInQueue(id, to);
+      }
+    }
+
+    // Look for subtitles that were missing or failed to download
+    if (k === "t" && missingSubtitles.length) {
+      let id = missingSubtitles[0]!.id;
+      if (missingSubtitles.length > 1) {
+        ({ id } = await inquirer.prompt([{
+          type: "list",
+          name: "id",
+          message: "Fetch subtitles for which download?",
+          choices: [
+            ...missingSubtitles.map((d) => ({ name: `${d.movieTitle} (missing ${d.subtitles!.missing.join(", ")})`, value: d.id })),
+            { name: "Never mind", value: "" },
+          ],
+        }]));
+      }
+      if (id) {
+        const spinner = ora("Fetching subtitles...").start();
+        await downloadManager.fetchMissingSubtitles(id);
+        spinner.stop();
+      }
+    }
+
+    // Clear completed/failed from list
+    if (k === "x" && inactive.length) {
+      downloadManager.clearCompleted();
+    }
+
+    // Delete completed download file from disk
+    if (k === "d" && doneWithFiles.length) {
+      if (doneWithFiles.length === 1) {
+        const d = doneWithFiles[0]!;
+        const { confirm } = await inquirer.prompt([{
+          type: "confirm",
+          name: "confirm",
+          message: `Delete "${d.movieTitle}" from disk?`,
+          default: false,
+        }]);
+        if (confirm) {
+          try {
+            await rm(d.filePath!, { recursive: true, force: true });
+            await downloadManager.deleteDownload(d.id);
+          } catch (err: any) {
+            console.log(chalk.red(`  Error: ${err.message}`));
+          }
+        }
+      } else {
+        const { ids } = await inquirer.prompt([{
+          type: "checkbox",
+          name: "ids",
+          message: "Delete which files?",
+          choices: doneWithFiles.map((d) => ({
+            name: `${d.movieTitle} (${d.quality})`,
+            value: d.id,
+          })),
+        }]);
+        for (const id of ids) {
+          const d = downloads.find((dl) => dl.id === id);
+          if (d?.filePath) {
+            try {
+              await rm(d.filePath, { recursive: true, force: true });
+              await downloadManager.deleteDownload(id);
+            } catch {}
+          }
+        }
+      }
+    }
+
+    // Copy a finished download's path
+    if (k === "y" && withPaths.length) {
+      const { path } = withPaths.length === 1 ? { path: withPaths[0]!.filePath! } : await inquirer.prompt([{
+        type: "list",
+        name: "path",
+        message: "Copy which path?",
+        choices: withPaths.map((d) => ({ name: `${d.movieTitle} (${d.quality})`, value: d.filePath })),
+      }]);
+      await copyText(path, "Path");
+      console.log(chalk.dim("  Press any key to go back"));
+      await waitForKey();
+    }
+
+    // Any other key → just re-render
   }
 }
 
-async function viewMovie(movie: Movie): Promise<void> {
-  await displayMovieDetail(movie);
+// --- Watchlist View ---
 
-  let viewing = true;
-  while (viewing) {
-    const choices: any[] = [];
+/** The configured preferred quality if this movie has it, else the best-seeded torrent */
+function preferredTorrent(movie: Movie): Torrent | undefined {
+  return pickTorrent(movie.torrents ?? [], config.preferredQuality) ?? pickTorrent(movie.torrents ?? []);
+}
 
-    if (movie.torrents?.length) {
-      for (const t of movie.torrents) {
-        choices.push({
-          name: `Download ${t.quality} (${t.size}, ↑${t.seeds})`,
-          value: `dl_${t.hash}`,
-        });
-      }
+async function watchlistEntryActions(entry: WatchlistEntry): Promise<void> {
+  const { movie } = entry;
+  const torrent = preferredTorrent(movie);
+
+  const choices: { name: string; value: string }[] = [];
+  if (torrent) choices.push({ name: `Download ${torrent.quality} (${torrent.size}, ↑${torrent.seeds})`, value: "download" });
+  choices.push({ name: "View details", value: "view" });
+  choices.push({ name: entry.note ? "Edit note" : "Add note", value: "note" });
+  choices.push({ name: "Remove from watchlist", value: "remove" });
+  choices.push({ name: "Back", value: "back" });
+
+  const { action } = await inquirer.prompt([
+    { type: "list", name: "action", message: `${movie.title} (${movie.year}):`, choices },
+  ]);
+
+  if (action === "download" && torrent) {
+    if (await downloadTorrent(buildMagnet(torrent.hash, movie.title), movie.title, torrent, { movie })) {
+      await promptSubtitleDownload(movie, torrent);
     }
+  } else if (action === "view") {
+    await viewMovie(movie);
+  } else if (action === "note") {
+    const { note } = await inquirer.prompt([
+      { type: "input", name: "note", message: "Note:", default: entry.note ?? "" },
+    ]);
+    await watchlist.setNote(movie.id, note.trim());
+  } else if (action === "remove") {
+    await watchlist.remove(movie.id);
+    console.log(chalk.dim(`\n  Removed "${movie.title}" from your watchlist.\n`));
+  }
+}
 
-    choices.push({ name: "Copy magnet link", value: "magnet" });
-    choices.push({ name: "Download subtitles", value: "subtitles" });
-    choices.push({ name: "Similar movies", value: "similar" });
-    choices.push({ name: "Back", value: "back" });
+async function viewWatchlist(): Promise<void> {
+  while (true) {
+    const entries = watchlist.list();
+    if (watchlist.loadError) {
+      console.log(chalk.yellow(`\n  Your watchlist ${watchlist.loadError}.\n`));
+      return;
+    }
+    if (!entries.length) {
+      console.log(chalk.dim("\n  Your watchlist is empty. Add movies from their detail view.\n"));
+      return;
+    }
+
+    console.log();
+    console.log(contextBar(chalk.bold.magenta("MOVIZONE"), chalk.dim(`Watchlist · ${entries.length} saved`)));
+    displayMovieTable(entries.map((e) => e.movie), {
+      head: chalk.dim("Added · Note"),
+      width: 26,
+      cells: entries.map((e) => chalk.dim(formatAgo(e.addedAt)) + (e.note ? `\n${chalk.italic(e.note)}` : "")),
+    });
+    console.log(navFooter());
+
+    const choices: any[] = entries.map((e, i) => ({
+      name: `${i + 1}. ${e.movie.title} (${e.movie.year})`,
+      value: `movie_${i}`,
+    }));
+    choices.push({ name: "Back to menu", value: "back" });
 
     const { action } = await inquirer.prompt([
-      { type: "list", name: "action", message: "Action:", choices },
+      { type: "list", name: "action", message: "Select:", choices, pageSize: 25 },
     ]);
+    if (action === "back") return;
 
-    if (action === "back") {
-      viewing = false;
-    } else if (action === "similar") {
-      await showSimilar(movie);
-    } else if (action === "magnet") {
-      await selectTorrentAndCopyMagnet(movie);
-    } else if (action === "subtitles") {
-      await promptSubtitleDownload(movie, undefined, true);
-    } else if (action.startsWith("dl_")) {
-      const hash = action.slice(3);
-      const torrent = movie.torrents?.find((t) => t.hash === hash);
-      const magnet = buildMagnet(hash, movie.title);
-      await downloadTorrent(magnet, movie.title, torrent);
-      await promptSubtitleDownload(movie, torrent);
-      viewing = false;
-    }
+    const idx = parseInt(action.split("_")[1]);
+    await watchlistEntryActions(entries[idx]!);
   }
 }
 
-async function selectTorrentAndCopyMagnet(movie: Movie): Promise<void> {
-  if (!movie.torrents?.length) {
-    console.log(chalk.yellow("\n  No torrents available.\n"));
+// --- Library View ---
+
+/** Rescan the download folder and libraryFolders; `rematch` also retries files that matched nothing */
+async function scanLibrary(rematch = false): Promise<LibraryScanResult> {
+  const downloads = downloadManager.getDownloads();
+  const complete = (d: DownloadState) => d.status === "done" || d.status === "seeding";
+  const known: KnownFile[] = [];
+  for (const d of downloads) {
+    if (!complete(d) || !d.filePath) continue;
+    const video = findMainVideo(await listFiles(d.filePath).catch(() => []));
+    if (video) known.push({ path: video.path, infoHash: d.magnet && infoHash(d.magnet), quality: d.quality, movie: d.movie });
+  }
+
+  return library.scan({
+    folders: [config.downloadDir, ...config.libraryFolders.map((f) => parseSettingValue("path", f) as string)],
+    known,
+    exclude: downloads.filter((d) => !complete(d) && d.filePath).map((d) => d.filePath!),
+    lookup: async (query) => (await searchMovies(query)).data.movies ?? [],
+    rematch,
+  });
+}
+
+function playFile(path: string): void {
+  const player = launchPlayer(path);
+  console.log(player
+    ? chalk.green(`\n  Playing in ${player}: `) + chalk.dim(path) + "\n"
+    : chalk.yellow("\n  No video player found (install mpv or vlc). The file is at:\n  ") + chalk.cyan(path) + "\n");
+}
+
+/** Subtitles made for one framerate, played over a video at another */
+const FPS_CHOICES = [
+  { name: "Keep timing", value: "" },
+  { name: "Subtitles for 25 fps, video at 23.976", value: "25:23.976" },
+  { name: "Subtitles for 23.976 fps, video at 25", value: "23.976:25" },
+  { name: "Subtitles for 25 fps, video at 24", value: "25:24" },
+  { name: "Subtitles for 24 fps, video at 25", value: "24:25" },
+  { name: "Subtitles for 24 fps, video at 23.976", value: "24:23.976" },
+  { name: "Subtitles for 23.976 fps, video at 24", value: "23.976:24" },
+];
+
+async function fixSubtitlesAction(videoPath: string): Promise<void> {
+  const files = (await subtitleFilesFor(videoPath)).filter((f) => [".srt", ".vtt"].includes(extname(f).toLowerCase()));
+  if (!files.length) {
+    console.log(chalk.dim("\n  No SRT or WebVTT subtitles next to this movie.\n"));
     return;
   }
-
-  const { torrent } = await inquirer.prompt([
+  const { file } = files.length === 1
+    ? { file: files[0]! }
+    : await inquirer.prompt([{
+      type: "list",
+      name: "file",
+      message: "Subtitle file:",
+      choices: files.map((f) => ({ name: basename(f), value: f })),
+    }]);
+
+  // A line of dialogue in the detected encoding shows whether the guess is right
+  const bytes = new Uint8Array(await Bun.file(file).arrayBuffer());
+  const detected = detectSubtitleEncoding(bytes, subtitleFileLanguage(file));
+  const sample = parseSrt(decodeSubtitle(bytes, detected)).find((c) => c.text)?.text.split("\n")[0];
+  if (sample) console.log(chalk.dim(`\n  ${detected}: `) + sample);
+
+  const answers = await inquirer.prompt([
     {
       type: "list",
-      name: "torrent",
-      message: "Select quality:",
-      choices: movie.torrents.map((t) => ({
-        name: `${t.quality} · ${t.size} · ↑${t.seeds} ↓${t.peers}`,
-        value: t,
-      })),
+      name: "encoding",
+      message: "Encoding:",
+      default: detected,
+      choices: SUBTITLE_ENCODINGS.map((e) => ({ name: e === detected ? `${e} (detected)` : e, value: e })),
+      pageSize: 15,
+    },
+    {
+      type: "list",
+      name: "format",
+      message: "Save as:",
+      default: extname(file).slice(1).toLowerCase(),
+      choices: [
+        { name: "SRT", value: "srt" },
+        { name: "WebVTT (.vtt)", value: "vtt" },
+        { name: "ASS (.ass)", value: "ass" },
+      ],
+    },
+    {
+      type: "input",
+      name: "offset",
+      message: "Shift by seconds (negative = earlier):",
+      default: "0",
+      validate: (input: string) => Number.isFinite(Number(input)) || "Enter a number of seconds, like 1.5 or -2",
     },
+    { type: "list", name: "fps", message: "Framerate:", choices: FPS_CHOICES },
   ]);
 
-  const magnet = buildMagnet(torrent.hash, movie.title);
+  const [from, to] = (answers.fps as string).split(":").map(Number);
+  try {
+    const result = await fixSubtitleFile(file, {
+      encoding: answers.encoding,
+      format: answers.format,
+      offsetMs: Math.round(Number(answers.offset) * 1000),
+      fps: from && to ? { from, to } : undefined,
+    });
+    console.log(chalk.green(`\n  Saved ${result.cues} subtitles as UTF-8: `) + chalk.dim(result.path) + "\n");
+  } catch (err: any) {
+    console.log(chalk.yellow(`\n  Could not fix ${basename(file)}: ${err.message}\n`));
+  }
+}
+
+async function libraryEntryActions(entry: LibraryEntry): Promise<void> {
+  const choices: { name: string; value: string }[] = [{ name: "Play", value: "play" }];
+  if (entry.movie) choices.push({ name: "View details", value: "view" });
+  if (entry.subtitles.length) choices.push({ name: "Fix subtitles", value: "subtitles" });
+  choices.push({ name: "Copy file location", value: "path" });
+  choices.push({ name: "Back", value: "back" });
 
-  const proc = Bun.spawn(["pbcopy"], { stdin: "pipe" });
-  proc.stdin.write(magnet);
-  proc.stdin.end();
-  await proc.exited;
+  const title = entry.movie ? `${entry.movie.title} (${entry.movie.year})` : basename(entry.path);
+  const { action } = await inquirer.prompt([
+    { type: "list", name: "action", message: `${title}:`, choices },
+  ]);
 
-  console.log(chalk.green("\n  Magnet link copied to clipboard!\n"));
+  if (action === "play") {
+    playFile(entry.path);
+  } else if (action === "view" && entry.movie) {
+    // The index keeps no torrents; fetch the full record when we can
+    const details = await getMovieDetails(entry.movie.imdb_code || entry.movie.id).catch(() => null);
+    if (details?.movie) await viewMovie(details.movie, details.cache);
+    else await viewMovie(entry.movie);
+  } else if (action === "subtitles") {
+    await fixSubtitlesAction(entry.path);
+  } else if (action === "path") {
+    await copyText(entry.path, "File location");
+  }
 }
 
-async function showSimilar(movie: Movie): Promise<void> {
-  const spinner = ora("Finding similar movies...").start();
+async function viewLibrary(): Promise<void> {
+  const spinner = ora("Scanning your library...").start();
   try {
-    const res = await getMovieSuggestions(movie.id);
+    const { added, removed } = await scanLibrary();
     spinner.stop();
+    if (added || removed) console.log(chalk.dim(`\n  ${added} new, ${removed} no longer on disk`));
+  } catch (err: any) {
+    spinner.fail(`Scan failed: ${err.message}`);
+  }
 
-    if (!res.data.movies?.length) {
-      console.log(chalk.yellow("\n  No suggestions found.\n"));
+  while (true) {
+    const entries = library.list();
+    if (!entries.length) {
+      console.log(chalk.dim(`\n  No movies found in ${config.downloadDir}. Add other folders with the libraryFolders setting.\n`));
       return;
     }
 
+    const unmatched = entries.filter((e) => !e.movie).length;
     console.log();
-    console.log(contextBar(chalk.bold.magenta("MOVIZONE"), chalk.dim(`Similar to "${movie.title}"`)));
-    displayMovieTable(res.data.movies);
+    console.log(contextBar(
+      chalk.bold.magenta("MOVIZONE"),
+      chalk.dim(`Library · ${entries.length} files` + (unmatched ? ` · ${unmatched} unmatched` : "")),
+    ));
+    const table = new Table({
+      head: [chalk.dim("#"), chalk.bold("Title"), chalk.dim("Year"), chalk.cyan("Quality"), chalk.white("Size"), chalk.dim("Subtitles")],
+      colWidths: [5, 36, 7, 9, 10, 18],
+      style: { head: [], border: ["gray"], compact: false },
+      wordWrap: true,
+    });
+    entries.forEach((e, i) => {
+      table.push([
+        chalk.dim(`${i + 1}`),
+        e.movie ? chalk.bold.white(e.movie.title) : chalk.white(e.title) + chalk.dim("\nnot matched"),
+        chalk.dim(String(e.movie?.year ?? e.year ?? "--")),
+        e.quality ? chalk.cyan(e.quality) : chalk.dim("--"),
+        formatBytes(e.size),
+        chalk.dim(e.subtitles.join(", ") || "--"),
+      ]);
+    });
+    console.log(table.toString());
     console.log(navFooter());
 
-    const choices: any[] = res.data.movies.map((m, i) => ({
-      name: `${i + 1}. ${m.title} (${m.year})`,
-      value: `movie_${i}`,
+    const choices: any[] = entries.map((e, i) => ({
+      name: `${i + 1}. ${e.movie ? `${e.movie.title} (${e.movie.year})` : basename(e.path)}`,
+      value: `entry_${i}`,
     }));
-    choices.push({ name: "Back", value: "back" });
+    choices.push({ name: "Rescan (retry unmatched files)", value: "rescan" });
+    choices.push({ name: "Back to menu", value: "back" });
 
     const { action } = await inquirer.prompt([
-      { type: "list", name: "action", message: "Select:", choices },
+      { type: "list", name: "action", message: "Select:", choices, pageSize: 25 },
     ]);
-
-    if (action.startsWith("movie_")) {
-      const idx = parseInt(action.split("_")[1]);
-      await viewMovie(res.data.movies[idx]!);
+    if (action === "back") return;
+    if (action === "rescan") {
+      const rescan = ora("Rescanning...").start();
+      const { unmatched } = await scanLibrary(true);
+      rescan.succeed(unmatched ? `${unmatched} file${unmatched === 1 ? "" : "s"} still unmatched` : "Every file matched");
+      continue;
     }
-  } catch (err: any) {
-    spinner.stop();
-    if (isExitPromptError(err)) throw err;
-    console.log(chalk.red(`\n  Error: ${err.message}\n`));
+
+    const idx = parseInt(action.split("_")[1]);
+    await libraryEntryActions(entries[idx]!);
   }
 }
 
-// --- Shared Paginated List ---
+// --- History View ---
 
-async function paginatedList(
-  fetcher: (page: number) => Promise<ListResponse>,
-  label: string,
-): Promise<void> {
-  let page = 1;
-  let browsing = true;
+function formatDuration(seconds: number | undefined): string {
+  if (!seconds) return "--";
+  return formatEta(seconds * 1000);
+}
 
-  while (browsing) {
-    const spinner = ora("Loading...").start();
-    try {
-      const res = await fetcher(page);
-      spinner.stop();
+function outcomeLabel(entry: HistoryEntry): string {
+  switch (entry.outcome) {
+    case "done": return chalk.green("✓ done");
+    case "failed": return chalk.red("✗ failed");
+    case "timeout": return chalk.red("⏱ timeout");
+    case "stalled": return chalk.red("⌛ stalled");
+    case "cancelled": return chalk.dim("cancelled");
+  }
+}
 
-      if (!res.data.movies?.length) {
-        console.log(chalk.yellow("\n  No movies found.\n"));
-        return;
-      }
+function printHistoryStats(entries: HistoryEntry[]): void {
+  const stats = historyStats(entries);
+  const months = stats.months.slice(0, 6)
+    .map((m) => `${chalk.dim(m.month)}  ${formatBytes(m.bytes).padStart(9)}  ${chalk.dim(`${m.downloads} download${m.downloads === 1 ? "" : "s"}`)}`);
+  console.log(boxen([
+    `${chalk.bold(String(stats.downloads))} downloads · ${chalk.bold(formatBytes(stats.bytes))} · `
+      + `${chalk.bold(`${Math.round(stats.successRate * 100)}%`)} succeeded`,
+    ...months,
+  ].join("\n"), {
+    title: chalk.bold(" Totals "),
+    titleAlignment: "left",
+    borderStyle: "round",
+    borderColor: "gray",
+    padding: { top: 0, bottom: 0, left: 1, right: 1 },
+  }));
+}
 
-      console.log();
-      console.log(contextBar(chalk.bold.magenta("MOVIZONE"), chalk.dim(`${label} · Page ${page} · ${res.data.movie_count.toLocaleString()} total`)));
-      displayMovieTable(res.data.movies);
-      console.log(navFooter());
+/** Start the same torrent again, with fresh catalog details when the provider still has the movie */
+async function downloadAgain(entry: HistoryEntry): Promise<void> {
+  const movie = entry.imdbCode ? (await getMovieDetails(entry.imdbCode).catch(() => null))?.movie : null;
+  const torrent = movie?.torrents?.find((t) => t.hash.toLowerCase() === entry.hash)
+    ?? (movie ? pickTorrent(movie.torrents ?? [], entry.quality) : undefined);
+  const hash = torrent?.hash ?? entry.hash;
+  if (!hash) {
+    console.log(chalk.red("\n  This entry has no torrent to download again.\n"));
+    return;
+  }
+  const title = movie?.title ?? entry.title;
+  if (await downloadTorrent(buildMagnet(hash, title), title, torrent, { movie: movie ?? undefined }) && movie && torrent) {
+    await promptSubtitleDownload(movie, torrent);
+  }
+}
 
-      const choices: any[] = res.data.movies.map((m, i) => ({
-        name: `${i + 1}. ${m.title} (${m.year})`,
-        value: `movie_${i}`,
-      }));
-      if (page > 1) choices.push({ name: "Previous page", value: "prev" });
-      if (res.data.movies.length === 20) choices.push({ name: "Next page", value: "next" });
-      choices.push({ name: "Back to menu", value: "back" });
+async function viewHistory(): Promise<void> {
+  await downloadHistory.load();
+  let query = "";
 
-      const { action } = await inquirer.prompt([
-        { type: "list", name: "action", message: "Select:", choices, pageSize: 25 },
-      ]);
+  while (true) {
+    const entries = downloadHistory.list(query);
+    if (!entries.length && !query) {
+      console.log(chalk.dim("\n  No downloads yet. Finished, failed and cancelled downloads show up here.\n"));
+      return;
+    }
 
-      if (action === "back") browsing = false;
-      else if (action === "next") page++;
-      else if (action === "prev") page--;
-      else if (action.startsWith("movie_")) {
-        const idx = parseInt(action.split("_")[1]);
-        await viewMovie(res.data.movies[idx]!);
-      }
-    } catch (err: any) {
-      spinner.stop();
-      if (isExitPromptError(err)) throw err;
-      console.log(chalk.red(`\n  Error: ${err.message}\n`));
-      browsing = false;
+    console.log();
+    console.log(contextBar(
+      chalk.bold.magenta("MOVIZONE"),
+      chalk.dim(`History · ${entries.length} download${entries.length === 1 ? "" : "s"}` + (query ? ` matching "${query}"` : "")),
+    ));
+    printHistoryStats(entries);
+
+    const shown = entries.slice(0, 50);
+    if (shown.length) {
+      const table = new Table({
+        head: [chalk.dim("#"), chalk.dim("Date"), chalk.bold("Title"), chalk.cyan("Quality"), chalk.white("Size"), chalk.dim("Took"), chalk.dim("Avg"), chalk.dim("Outcome")],
+        colWidths: [5, 12, 30, 9, 10, 9, 12, 12],
+        style: { head: [], border: ["gray"], compact: true },
+        wordWrap: true,
+      });
+      shown.forEach((e, i) => {
+        table.push([
+          chalk.dim(`${i + 1}`),
+          chalk.dim(new Date(e.finishedAt).toLocaleDateString()),
+          chalk.white(e.title) + (e.year ? chalk.dim(` (${e.year})`) : ""),
+          chalk.cyan(e.quality),
+          formatBytes(e.bytes),
+          chalk.dim(formatDuration(e.duration)),
+          chalk.dim(e.averageSpeed ? formatSpeed(e.averageSpeed) : "--"),
+          outcomeLabel(e),
+        ]);
+      });
+      console.log(table.toString());
+    } else {
+      console.log(chalk.yellow(`\n  Nothing matches "${query}".\n`));
+    }
+    if (entries.length > shown.length) console.log(chalk.dim(`  Showing the latest ${shown.length}; search to narrow it down.`));
+
+    const choices: any[] = shown.map((e, i) => ({
+      name: `${i + 1}. Download again: ${e.title} (${e.quality})`,
+      value: `entry_${i}`,
+    }));
+    choices.unshift({ name: query ? "Search again" : "Search", value: "search" });
+    if (query) choices.push({ name: "Show all", value: "all" });
+    choices.push({ name: "Back to menu", value: "back" });
+
+    const { action } = await inquirer.prompt([
+      { type: "list", name: "action", message: "Select:", choices, pageSize: 25 },
+    ]);
+    if (action === "back") return;
+    if (action === "all") {
+      query = "";
+    } else if (action === "search") {
+      ({ query } = await inquirer.prompt([{ type: "input", name: "query", message: "Title or IMDb id:" }]));
+      query = query.trim();
+    } else {
+      const idx = parseInt(action.split("_")[1]);
+      await downloadAgain(shown[idx]!);
     }
   }
 }
 
-// --- Downloads View ---
+// --- Mirror Status ---
 
-function downloadStatusIcon(status: DownloadState["status"]): string {
-  switch (status) {
-    case "connecting": return chalk.yellow("◌");
-    case "downloading": return chalk.cyan("▼");
-    case "done": return chalk.green("✓");
-    case "error": return chalk.red("✗");
-    case "timeout": return chalk.yellow("⏱");
-  }
+function configuredMirrors(): string[] {
+  const opts = providerOptions();
+  return opts.baseUrl ? [opts.baseUrl] : opts.mirrors;
 }
 
-function downloadProgressBar(progress: number, width = 20): string {
-  const filled = Math.round(progress * width);
-  return chalk.green("█".repeat(filled)) + chalk.dim("░".repeat(width - filled));
+/** Hit every mirror once (no failover) so the health table reflects right now */
+async function probeMirrors(mirrors: string[]): Promise<void> {
+  await Promise.allSettled(
+    mirrors.map((m) => fetchMirror(m, "list_movies.json", { limit: 1 }, config.apiTimeoutMs)),
+  );
 }
 
-function renderDownloadsScreen(downloads: DownloadState[]): void {
+function renderMirrorStatus(mirrors: string[]): void {
+  const health = loadMirrorHealth();
   const table = new Table({
     head: [
       chalk.dim("#"),
-      chalk.bold("Title"),
-      chalk.cyan("Quality"),
-      chalk.white("Progress"),
-      chalk.cyan("Speed"),
-      chalk.white("ETA"),
+      chalk.bold("Mirror"),
       chalk.dim("Status"),
+      chalk.cyan("Latency"),
+      chalk.green("Last OK"),
+      chalk.red("Last failure"),
     ],
-    colWidths: [5, 28, 10, 28, 12, 10, 12],
     style: { head: [], border: ["gray"], compact: false },
-    wordWrap: true,
   });
 
-  for (let i = 0; i < downloads.length; i++) {
-    const d = downloads[i]!;
-    const pct = (d.progress * 100).toFixed(1) + "%";
-    const progressCell = d.status === "downloading"
-      ? `${downloadProgressBar(d.progress)} ${chalk.bold(pct)}`
-      : d.status === "done"
-        ? `${downloadProgressBar(1)} ${chalk.bold("100%")}`
-        : chalk.dim("--");
-    const speedCell = d.status === "downloading" ? chalk.cyan(formatSpeed(d.speed)) : chalk.dim("--");
-    const etaCell = d.status === "downloading" ? formatEta(d.eta) : chalk.dim("--");
-    const statusCell = `${downloadStatusIcon(d.status)} ${d.status === "error" || d.status === "timeout" ? chalk.red(d.error || d.status) : d.status}`;
+  for (let i = 0; i < mirrors.length; i++) {
+    const url = mirrors[i]!;
+    const h = health[url];
+    const status = !h
+      ? chalk.dim("untested")
+      : h.failures > 0
+        ? chalk.red(`✗ failing (${h.failures})`)
+        : chalk.green("✓ ok");
 
     table.push([
       chalk.dim(`${i + 1}`),
-      chalk.white(d.movieTitle),
-      chalk.cyan(d.quality),
-      progressCell,
-      speedCell,
-      etaCell,
-      statusCell,
+      chalk.white(mirrorHost(url)),
+      status,
+      h?.latencyMs !== undefined ? chalk.cyan(`${h.latencyMs} ms`) : chalk.dim("--"),
+      chalk.dim(formatAgo(h?.lastSuccess)),
+      chalk.dim(formatAgo(h?.lastFailure)),
     ]);
   }
 
   console.log(boxen(table.toString(), {
-    title: chalk.bold(" Downloads "),
+    title: chalk.bold(" API Mirrors "),
     titleAlignment: "left",
     borderStyle: "round",
     borderColor: "cyan",
@@ -1323,151 +5148,250 @@ function renderDownloadsScreen(downloads: DownloadState[]): void {
     padding: { top: 0, bottom: 0, left: 0, right: 0 },
   }));
 
-  // Show file paths for completed downloads
-  const doneWithFiles = downloads.filter((d) => d.status === "done" && d.filePath);
-  if (doneWithFiles.length) {
-    for (const d of doneWithFiles) {
-      console.log(chalk.dim(`  ✓ ${d.movieTitle}: ${d.filePath}`));
+  for (const url of mirrors) {
+    const h = health[url];
+    if (h && h.failures > 0 && h.lastError) {
+      console.log(chalk.dim(`  ✗ ${mirrorHost(url)}: ${h.lastError}`));
     }
-    console.log();
   }
+  if (config.provider !== "yts") {
+    console.log(chalk.dim(`  Note: the "${config.provider}" provider may not use these mirrors.`));
+  }
+  console.log();
 }
 
-function waitForKey(timeoutMs?: number): Promise<string | null> {
-  return new Promise((resolve) => {
-    let timer: ReturnType<typeof setTimeout> | undefined;
+async function viewMirrorStatus(): Promise<void> {
+  const mirrors = configuredMirrors();
 
-    function cleanup() {
-      if (timer) clearTimeout(timer);
-      process.stdin.removeAllListeners("data");
-      if (process.stdin.isTTY) process.stdin.setRawMode(false);
-      process.stdin.pause();
-    }
+  while (true) {
+    console.log();
+    renderMirrorStatus(mirrors);
 
-    if (timeoutMs !== undefined) {
-      timer = setTimeout(() => {
-        cleanup();
-        resolve(null);
-      }, timeoutMs);
-    }
+    const { action } = await inquirer.prompt([
+      {
+        type: "list",
+        name: "action",
+        message: "Mirrors:",
+        choices: [
+          { name: "Test all mirrors now", value: "probe" },
+          { name: "Back", value: "back" },
+        ],
+      },
+    ]);
+    if (action === "back") return;
 
-    if (process.stdin.isTTY) process.stdin.setRawMode(true);
-    process.stdin.resume();
-    process.stdin.once("data", (data: Buffer) => {
-      cleanup();
-      resolve(data.toString());
-    });
-  });
+    const spinner = ora("Testing mirrors...").start();
+    await probeMirrors(mirrors);
+    spinner.stop();
+  }
 }
 
-async function viewDownloads(): Promise<void> {
-  while (true) {
-    const downloads = downloadManager.getDownloads();
-    if (!downloads.length) {
-      console.log(chalk.dim("\n  No downloads yet.\n"));
-      return;
-    }
+// --- Tracker Status ---
 
-    await downloadManager.refreshOrphaned();
+function trackerHost(url: string): string {
+  try {
+    return new URL(url).host || url;
+  } catch {
+    return url;
+  }
+}
 
-    const active = downloadManager.getActive();
-    const inactive = downloads.filter((d) => d.status === "done" || d.status === "error" || d.status === "timeout");
-    const doneWithFiles = downloads.filter((d) => d.status === "done" && d.filePath);
+function renderTrackerStatus(): void {
+  const health = trackerStore.health();
+  const trackers = trackerStore.list();
+  const table = new Table({
+    head: [
+      chalk.dim("#"),
+      chalk.bold("Tracker"),
+      chalk.dim("Status"),
+      chalk.cyan("Peers"),
+      chalk.green("Last OK"),
+      chalk.red("Failed"),
+    ],
+    style: { head: [], border: ["gray"], compact: false },
+  });
 
-    // Clear screen and render
-    process.stdout.write("\x1b[2J\x1b[H");
-    renderDownloadsScreen(downloads);
+  for (let i = 0; i < trackers.length; i++) {
+    const url = trackers[i]!;
+    const h = health[url];
+    const status = trackerStatus(h);
+    const statusText = status === "untested" ? chalk.dim("untested")
+      : status === "ok" ? chalk.green("✓ ok")
+      : status === "dead" ? chalk.red(`✗ dead (${h!.failures})`)
+      : chalk.yellow(`✗ failing (${h!.failures})`);
 
-    // Key hints footer
-    const hints: string[] = [];
-    if (active.length) hints.push(chalk.bold("c") + chalk.dim(" Cancel"));
-    if (inactive.length) hints.push(chalk.bold("x") + chalk.dim(" Clear"));
-    if (doneWithFiles.length) hints.push(chalk.bold("d") + chalk.dim(" Delete file"));
-    hints.push(chalk.bold("b") + chalk.dim(" Back"));
+    table.push([
+      chalk.dim(`${i + 1}`),
+      chalk.white(trackerHost(url)),
+      statusText,
+      h?.peers !== undefined ? chalk.cyan(String(h.peers)) : chalk.dim("--"),
+      chalk.dim(formatAgo(h?.lastSuccess)),
+      chalk.dim(formatAgo(h?.lastFailure)),
+    ]);
+  }
 
-    console.log(boxen(
-      "  " + hints.join("   ") + "  ",
-      { borderStyle: "single", borderColor: "gray", dimBorder: true, padding: 0 },
-    ));
+  console.log(boxen(trackers.length ? table.toString() : chalk.dim("No trackers: peers come from the DHT only"), {
+    title: chalk.bold(" Trackers "),
+    titleAlignment: "left",
+    borderStyle: "round",
+    borderColor: "cyan",
+    dimBorder: true,
+    padding: { top: 0, bottom: 0, left: 0, right: 0 },
+  }));
+
+  for (const url of trackers) {
+    const h = health[url];
+    if (h && h.failures > 0 && h.lastError) console.log(chalk.dim(`  ✗ ${trackerHost(url)}: ${h.lastError}`));
+  }
+  console.log(chalk.dim(`  Dead trackers are left out of new magnets and failing ones go last. List: ${TRACKER_LIST_PATH}`));
+  if (config.trackers.length) {
+    console.log(chalk.dim(`  Plus ${config.trackers.length} from the "trackers" setting.`));
+  }
+  console.log();
+}
+
+async function viewTrackers(): Promise<void> {
+  while (true) {
+    console.log();
+    renderTrackerStatus();
+
+    const trackers = trackerStore.list();
+    const dead = trackers.filter((url) => trackerStatus(trackerStore.health()[url]) === "dead");
+    const choices = [
+      { name: "Import a tracker list", value: "import" },
+      { name: "Add a tracker", value: "add" },
+      ...(trackers.length ? [{ name: "Remove trackers", value: "remove" }] : []),
+      ...(dead.length ? [{ name: `Remove ${dead.length} dead tracker${dead.length === 1 ? "" : "s"}`, value: "prune" }] : []),
+      { name: "Back", value: "back" },
+    ];
+    const { action } = await inquirer.prompt([
+      { type: "list", name: "action", message: "Trackers:", choices },
+    ]);
 
-    if (active.length) {
-      console.log(chalk.dim("  Auto-refreshing..."));
+    if (action === "back") return;
+    if (action === "import") {
+      const { source } = await inquirer.prompt([
+        { type: "input", name: "source", message: "List URL or file:", default: TRACKER_LIST_URL },
+      ]);
+      const spinner = ora("Importing trackers...").start();
+      try {
+        const added = await trackerStore.import(source.trim());
+        spinner.succeed(added.length ? `Added ${added.length} tracker${added.length === 1 ? "" : "s"}` : "No new trackers in that list");
+      } catch (err: any) {
+        spinner.fail(err.message);
+      }
+    } else if (action === "add") {
+      const { url } = await inquirer.prompt([
+        { type: "input", name: "url", message: "Announce URL:" },
+      ]);
+      const urls = parseTrackerList(url);
+      if (!urls.length) console.log(chalk.red("  Not a tracker URL (udp://, http(s):// or ws(s)://)"));
+      else trackerStore.add(urls);
+    } else if (action === "remove") {
+      const { urls } = await inquirer.prompt([
+        {
+          type: "checkbox",
+          name: "urls",
+          message: "Remove which trackers?",
+          choices: trackers.map((t) => ({ name: trackerHost(t), value: t })),
+        },
+      ]);
+      if (urls.length) trackerStore.remove(urls);
+    } else if (action === "prune") {
+      trackerStore.prune();
     }
+  }
+}
 
-    // Wait for keypress (auto-refresh every 1s if active downloads)
-    const key = await waitForKey(active.length > 0 ? 1000 : undefined);
-
-    if (key === null) continue; // Timeout → auto-refresh
-
-    const k = key.charAt(0);
+// --- Settings ---
 
-    if (k === "b" || k === "q" || k === "\x1b") return;
-    if (k === "\x03") exitGracefully();
+function formatSettingValue(value: unknown): string {
+  if (Array.isArray(value)) return value.length ? `${value.length} entries` : "none";
+  if (value === "") return "default";
+  return String(value);
+}
 
-    // Cancel active download
-    if (k === "c" && active.length) {
-      if (active.length === 1) {
-        downloadManager.cancelDownload(active[0]!.id);
-      } else {
-        const { id } = await inquirer.prompt([{
-          type: "list",
-          name: "id",
-          message: "Cancel which download?",
-          choices: [
-            ...active.map((d) => ({ name: `${d.movieTitle} (${d.quality})`, value: d.id })),
-            { name: "Never mind", value: "" },
-          ],
-        }]);
-        if (id) downloadManager.cancelDownload(id);
-      }
-    }
+/** Which source wins for a setting, if it isn't the config file */
+function settingOverride(key: string): string | null {
+  return process.env[settingEnvVar(key)] !== undefined ? settingEnvVar(key) : null;
+}
 
-    // Clear completed/failed from list
-    if (k === "x" && inactive.length) {
-      downloadManager.clearCompleted();
-    }
+async function editSetting(setting: SettingDef): Promise<void> {
+  const current = config[setting.key];
+  let value: SettingValue | undefined;
 
-    // Delete completed download file from disk
-    if (k === "d" && doneWithFiles.length) {
-      if (doneWithFiles.length === 1) {
-        const d = doneWithFiles[0]!;
-        const { confirm } = await inquirer.prompt([{
-          type: "confirm",
-          name: "confirm",
-          message: `Delete "${d.movieTitle}" from disk?`,
-          default: false,
-        }]);
-        if (confirm) {
+  if (setting.type === "boolean") {
+    const { answer } = await inquirer.prompt([
+      { type: "confirm", name: "answer", message: `${setting.label}?`, default: current },
+    ]);
+    value = answer;
+  } else {
+    const { answer } = await inquirer.prompt([
+      {
+        type: "input",
+        name: "answer",
+        message: `${setting.label}${setting.type === "list" ? " (comma-separated)" : ""}, empty for default:`,
+        default: Array.isArray(current) ? current.join(", ") : String(current),
+        validate: (input: string) => {
+          if (!input.trim()) return true;
           try {
-            await rm(d.filePath!, { recursive: true, force: true });
-            downloadManager.deleteDownload(d.id);
+            checkSetting(setting, input);
+            return true;
           } catch (err: any) {
-            console.log(chalk.red(`  Error: ${err.message}`));
-          }
-        }
-      } else {
-        const { ids } = await inquirer.prompt([{
-          type: "checkbox",
-          name: "ids",
-          message: "Delete which files?",
-          choices: doneWithFiles.map((d) => ({
-            name: `${d.movieTitle} (${d.quality})`,
-            value: d.id,
-          })),
-        }]);
-        for (const id of ids) {
-          const d = downloads.find((dl) => dl.id === id);
-          if (d?.filePath) {
-            try {
-              await rm(d.filePath, { recursive: true, force: true });
-              downloadManager.deleteDownload(id);
-            } catch {}
+            return err.message;
           }
-        }
-      }
-    }
+        },
+      },
+    ]);
+    value = answer.trim() ? checkSetting(setting, answer) : undefined;
+  }
 
-    // Any other key → just re-render
+  if (value === undefined) {
+    delete fileConfig[setting.key];
+    // Back to the env var if one is set, else the default
+    setSetting(config, setting.key, DEFAULT_CONFIG[setting.key]);
+    applySettingOverrides(config, process.env, settingEnvVar, [setting]);
+  } else {
+    setSetting(fileConfig, setting.key, value);
+    setSetting(config, setting.key, value);
+  }
+  activeProvider = null; // Provider, mirrors and timeouts are read when it's created
+  downloadManager.syncControl();
+
+  try {
+    await saveConfigFile();
+    console.log(chalk.green(`  Saved to ${configPath}`));
+  } catch (err: any) {
+    console.log(chalk.red(`  Could not save settings: ${err.message}`));
+  }
+
+  const override = settingOverride(setting.key);
+  if (override) {
+    console.log(chalk.yellow(`  Note: ${override} is set and will override this on the next start.`));
+  }
+}
+
+async function viewSettings(): Promise<void> {
+  while (true) {
+    console.log(chalk.dim(`\n  Config file: ${configPath}`));
+    const { key } = await inquirer.prompt([
+      {
+        type: "list",
+        name: "key",
+        message: "Settings:",
+        pageSize: SETTINGS.length + 1,
+        choices: [
+          ...SETTINGS.map((setting) => ({
+            name: `${setting.label.padEnd(26)} ${chalk.dim(formatSettingValue(config[setting.key]))}` +
+              (settingOverride(setting.key) ? chalk.yellow(` (${settingOverride(setting.key)})`) : ""),
+            value: setting.key,
+          })),
+          { name: "Back", value: "back" },
+        ],
+      },
+    ]);
+    if (key === "back") return;
+    await editSetting(SETTINGS.find((setting) => setting.key === key)!);
   }
 }
 
@@ -1521,14 +5445,502 @@ function exitGracefully(): never {
   process.exit(0);
 }
 
+// --- CLI Subcommands ---
+
+export interface CliArgs {
+  command: string | null;
+  positionals: string[];
+  flags: Record<string, string | boolean>;
+}
+
+/** Flags that never take a value, so `--json inception` keeps "inception" as a positional */
+const BOOLEAN_FLAGS = new Set(["json", "help", "version", "check", "offline", "force", "scan", "prune", "match"]);
+
+export function parseCliArgs(argv: string[]): CliArgs {
+  const positionals: string[] = [];
+  const flags: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (arg === "--") {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+    if (arg === "-h") { flags.help = true; continue; }
+    if (arg === "-v") { flags.version = true; continue; }
+    if (!arg.startsWith("--")) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const eq = arg.indexOf("=");
+    if (eq !== -1) {
+      flags[arg.slice(2, eq)] = arg.slice(eq + 1);
+      continue;
+    }
+
+    const name = arg.slice(2);
+    const next = argv[i + 1];
+    if (!BOOLEAN_FLAGS.has(name) && next !== undefined && !next.startsWith("-")) {
+      flags[name] = next;
+      i++;
+    } else {
+      flags[name] = true;
+    }
+  }
+
+  return { command: positionals.shift() ?? null, positionals, flags };
+}
+
+/** Pick the requested quality (or the best-seeded torrent when none is given) */
+export function pickTorrent(torrents: Torrent[], quality?: string): Torrent | undefined {
+  const candidates = quality
+    ? torrents.filter((t) => t.quality.toLowerCase() === quality.toLowerCase())
+    : torrents;
+  return candidates.reduce<Torrent | undefined>((best, t) => (!best || t.seeds > best.seeds ? t : best), undefined);
+}
+
+/** A flag's value; a value flag given last with nothing after it is a usage error, not "unset" */
+export function flagString(args: CliArgs, name: string): string | undefined {
+  const value = args.flags[name];
+  if (value === true) throw new Error(`--${name} needs a value. Run movizone --help for usage.`);
+  return typeof value === "string" ? value : undefined;
+}
+
+function printJson(data: unknown): void {
+  console.log(JSON.stringify(data, null, 2));
+}
+
+function printMovieList(movies: Movie[]): void {
+  for (const m of movies) {
+    const rating = m.rating ? chalk.yellow(`★ ${m.rating}`) : chalk.dim("--");
+    const qualities = m.torrents?.map((t) => t.quality).join(" ") || "--";
+    console.log(
+      `${chalk.dim(String(m.id).padStart(6))}  ${chalk.bold.white(m.title)}${ownedMark(m)} ${chalk.dim(`(${m.year})`)}  ${rating}  ${chalk.cyan(qualities)}`,
+    );
+  }
+}
+
+async function requireMovieDetails(key: string | undefined, usage: string): Promise<{ movie: Movie; cache?: CacheInfo }> {
+  if (!key) throw new Error(`Usage: ${usage}`);
+  const { movie, cache } = await getMovieDetails(key);
+  if (!movie) throw new Error(`No movie found for "${key}"`);
+  return { movie, cache };
+}
+
+async function requireMovie(key: string | undefined, usage: string): Promise<Movie> {
+  return (await requireMovieDetails(key, usage)).movie;
+}
+
+async function cliSearch(args: CliArgs): Promise<void> {
+  const query = args.positionals.join(" ").trim();
+  if (!query) throw new Error("Usage: movizone search <query>");
+
+  const { movies, cache } = await smartSearch(query);
+  if (args.flags.json) return printJson(movies);
+  await library.load(); // For the ✓ on movies already on disk
+
+  if (!movies.length) {
+    console.log(chalk.yellow(`No results for "${query}".`));
+    return;
+  }
+  printMovieList(movies);
+  if (cache?.stale) console.log(chalk.yellow(`Stale results, cached ${formatAgo(cache.cachedAt)}`));
+}
+
+async function cliBrowse(args: CliArgs): Promise<void> {
+  const sortBy = flagString(args, "sort") ?? "date_added";
+  if (!SORT_OPTIONS.some((o) => o.value === sortBy)) {
+    throw new Error(`Unknown sort "${sortBy}". Use one of: ${SORT_OPTIONS.map((o) => o.value).join(", ")}`);
+  }
+  const genre = (flagString(args, "genre") ?? "all").toLowerCase();
+  if (!GENRE_OPTIONS.includes(genre)) {
+    throw new Error(`Unknown genre "${genre}". Use one of: ${GENRE_OPTIONS.join(", ")}`);
+  }
+  const page = parseInt(flagString(args, "page") ?? "1", 10);
+  if (!(page >= 1)) throw new Error("--page must be a positive number");
+
+  const params: ListOptions = { sort_by: sortBy, order_by: "desc" };
+  if (genre !== "all") params.genre = genre;
+  const res = await listMovies(page, params);
+  if (args.flags.json) return printJson(res.data);
+
+  const movies = res.data.movies ?? [];
+  if (!movies.length) {
+    console.log(chalk.yellow("No movies found."));
+    return;
+  }
+  printMovieList(movies);
+  console.log(chalk.dim(`Page ${page} · ${res.data.movie_count.toLocaleString()} total`) + cacheLabel(res.cache));
+}
+
+async function cliInfo(args: CliArgs): Promise<void> {
+  const { movie, cache } = await requireMovieDetails(args.positionals[0], "movizone info <id|imdb>");
+  if (args.flags.json) return printJson(movie);
+  await displayMovieDetail(movie, cache);
+}
+
+function requireTorrent(movie: Movie, args: CliArgs): Torrent {
+  const quality = flagString(args, "quality");
+  const torrent = pickTorrent(movie.torrents ?? [], quality);
+  if (!torrent) {
+    const available = movie.torrents?.map((t) => t.quality).join(", ") || "none";
+    const wanted = quality ? `${quality} torrent` : "torrent";
+    throw new Error(`No ${wanted} for "${movie.title}" (available: ${available})`);
+  }
+  return torrent;
+}
+
+/** Refuse duplicates and downloads that won't fit on disk, unless --force */
+async function requirePreflight(magnet: string, title: string, torrent: Torrent, args: CliArgs, movie?: Movie): Promise<void> {
+  if (args.flags.force) return;
+  const check = await downloadManager.preflight(magnet, title, torrent, movie);
+  if (check.duplicate && check.duplicate.status !== "done") {
+    throw new Error(`"${title}" is already in your downloads (${check.duplicate.status}, id ${check.duplicate.id}); use --force to download it again`);
+  }
+  if (check.existingFile) {
+    throw new Error(`"${title}" is already downloaded: ${check.existingFile}; use --force to download it again`);
+  }
+  if (lowOnSpace(check)) {
+    throw new Error(`Not enough disk space in ${config.downloadDir}: needs ${formatBytes(check.neededBytes)}, ${formatBytes(check.freeBytes!)} free; use --force to download anyway`);
+  }
+}
+
+async function cliDownload(args: CliArgs): Promise<void> {
+  const movie = await requireMovie(args.positionals[0], "movizone download <id|imdb> [--quality 1080p] [--force]");
+  const torrent = requireTorrent(movie, args);
+  const magnet = buildMagnet(torrent.hash, movie.title);
+
+  await downloadManager.loadDownloads(); // Count what's already running against maxConcurrent
+  await requirePreflight(magnet, movie.title, torrent, args, movie);
+  const id = downloadManager.startDownload(magnet, movie.title, torrent, { movie });
+  const state = downloadManager.getDownloads().find((d) => d.id === id)!;
+  if (args.flags.json) return printJson(state);
+
+  const verb = state.status === "queued" ? "Download queued" : "Download started";
+  console.log(chalk.green(`${verb}: ${movie.title} (${torrent.quality}, ${torrent.size})`));
+  console.log(chalk.dim(`  id ${id} · saving to ${config.downloadDir}`));
+  console.log(chalk.dim("  Check progress with: movizone downloads"));
+}
+
+async function cliAdd(args: CliArgs): Promise<void> {
+  const input = args.positionals[0];
+  const usage = "movizone add <magnet|file.torrent|info hash> [--id <id|imdb>] [--match] [--force]";
+  if (!input) throw new Error(`Usage: ${usage}`);
+  const source = await readTorrentSource(input);
+  const { matchedBy, torrent, ...match } = await identifyTorrent(source);
+
+  // Nobody is here to confirm a match by name, and a wrong one files the download under another movie
+  let movie = match.movie;
+  const id = flagString(args, "id");
+  if (id) {
+    movie = await requireMovie(id, usage);
+  } else if (movie && matchedBy === "name" && !args.flags.match) {
+    console.error(chalk.dim(
+      `Looks like ${movie.title} (${movie.year}), matched by name only. Add --match to use it, or --id to pick the movie.`,
+    ));
+    movie = undefined;
+  }
+  const title = movie?.title ?? source.name ?? source.infoHash;
+
+  await downloadManager.loadDownloads(); // Count what's already running against maxConcurrent
+  await requirePreflight(source.magnet, title, torrent, args, movie);
+  const downloadId = downloadManager.startDownload(source.magnet, title, torrent, { movie, torrentFile: source.torrentFile });
+  const state = downloadManager.getDownloads().find((d) => d.id === downloadId)!;
+  if (args.flags.json) return printJson(state);
+
+  const verb = state.status === "queued" ? "Download queued" : "Download started";
+  console.log(chalk.green(`${verb}: ${title}`) + chalk.dim(movie ? ` (${movie.year}, from the catalog)` : " (not in the catalog)"));
+  console.log(chalk.dim(`  id ${downloadId} · saving to ${config.downloadDir}`));
+  console.log(chalk.dim("  Check progress with: movizone downloads"));
+}
+
+async function cliStream(args: CliArgs): Promise<void> {
+  const movie = await requireMovie(args.positionals[0], "movizone stream <id|imdb> [--quality 1080p] [--force]");
+  const torrent = requireTorrent(movie, args);
+  const magnet = buildMagnet(torrent.hash, movie.title);
+
+  await downloadManager.loadDownloads();
+  await requirePreflight(magnet, movie.title, torrent, args, movie);
+  const id = downloadManager.startDownload(magnet, movie.title, torrent, { stream: true, movie });
+  if (!args.flags.json) console.log(chalk.dim(`Buffering ${movie.title} (${torrent.quality})...`));
+  const url = await downloadManager.waitForStream(id);
+  if (!url) throw new Error(`Could not start the stream for "${movie.title}"`);
+
+  const player = launchPlayer(url);
+  if (args.flags.json) return printJson({ id, url, player });
+  console.log(chalk.green(player ? `Playing in ${player}: ${url}` : `Streaming at ${url}`));
+  if (!player) console.log(chalk.dim("  No video player found; open the URL in mpv or vlc."));
+}
+
+async function cliDownloads(args: CliArgs): Promise<void> {
+  await downloadManager.loadDownloads();
+  await downloadManager.refreshOrphaned();
+  const downloads = downloadManager.getDownloads();
+  if (args.flags.json) return printJson(downloads);
+
+  if (!downloads.length) {
+    console.log(chalk.dim("No downloads yet."));
+    return;
+  }
+  renderDownloadsScreen(downloads);
+}
+
+/** Look up a download by id or by its # in `movizone downloads` */
+function requireDownload(key: string | undefined, usage: string): DownloadState {
+  if (!key) throw new Error(`Usage: ${usage}`);
+  const downloads = downloadManager.getDownloads();
+  const state = downloads.find((d) => d.id === key) ?? (/^\d+$/.test(key) ? downloads[Number(key) - 1] : undefined);
+  if (!state) throw new Error(`No download found for "${key}"`);
+  return state;
+}
+
+async function cliPause(args: CliArgs): Promise<void> {
+  await downloadManager.loadDownloads();
+  await downloadManager.refreshOrphaned();
+  const state = requireDownload(args.positionals[0], "movizone pause <#|id>");
+  if (state.status !== "connecting" && state.status !== "downloading") {
+    throw new Error(`"${state.movieTitle}" is ${state.status}, not downloading`);
+  }
+  await downloadManager.pauseDownload(state.id);
+  if (args.flags.json) return printJson(state);
+  console.log(chalk.green(`Paused: ${state.movieTitle} (${(state.progress * 100).toFixed(1)}%)`));
+}
+
+async function cliResume(args: CliArgs): Promise<void> {
+  await downloadManager.loadDownloads();
+
+  // No argument: pick up everything a crash or reboot left behind
+  if (!args.positionals.length) {
+    const interrupted = downloadManager.getInterrupted();
+    downloadManager.resumeInterrupted();
+    if (args.flags.json) return printJson(interrupted);
+    if (!interrupted.length) console.log(chalk.dim("No interrupted downloads."));
+    for (const d of interrupted) console.log(chalk.green(`Resuming: ${d.movieTitle}`));
+    return;
+  }
+
+  const state = requireDownload(args.positionals[0], "movizone resume [#|id]");
+  if (state.status !== "paused" && state.status !== "interrupted") {
+    throw new Error(`"${state.movieTitle}" is ${state.status}, not paused`);
+  }
+  downloadManager.resumeDownload(state.id);
+  if (args.flags.json) return printJson(state);
+  const verb = downloadManager.getActive().includes(state) ? "Resumed" : "Queued to resume";
+  console.log(chalk.green(`${verb}: ${state.movieTitle}`));
+}
+
+async function cliFiles(args: CliArgs): Promise<void> {
+  await downloadManager.loadDownloads();
+  await downloadManager.refreshOrphaned();
+  const state = requireDownload(args.positionals[0], "movizone files <#|id> [--select 1,3]");
+  if (!state.files) throw new Error(`No file list for "${state.movieTitle}" yet (it arrives once the download connects)`);
+
+  const select = flagString(args, "select");
+  if (select) {
+    // Numbered from 1, as printed below
+    const indices = select.split(",").map((n) => Number(n.trim()) - 1);
+    if (indices.some((i) => !Number.isInteger(i) || !state.files![i])) {
+      throw new Error(`--select takes file numbers from 1 to ${state.files.length}, e.g. --select 1,3`);
+    }
+    downloadManager.setFileSelection(state.id, indices);
+  }
+
+  if (args.flags.json) return printJson(state.files);
+  state.files.forEach((f, i) => {
+    const mark = f.selected ? chalk.green("[x]") : chalk.dim("[ ]");
+    console.log(`${mark} ${chalk.dim(`${i + 1}.`.padEnd(4))}${f.name} ${chalk.dim(`(${formatBytes(f.length)})`)}`);
+  });
+}
+
+async function cliMirrors(args: CliArgs): Promise<void> {
+  const mirrors = configuredMirrors();
+  if (args.flags.check) await probeMirrors(mirrors);
+  if (args.flags.json) {
+    const health = loadMirrorHealth();
+    return printJson(mirrors.map((url) => ({ url, ...health[url] })));
+  }
+  renderMirrorStatus(mirrors);
+}
+
+async function cliTrackers(args: CliArgs): Promise<void> {
+  if (args.flags.import) {
+    // A bare --import takes the default list
+    const added = await trackerStore.import(typeof args.flags.import === "string" ? args.flags.import : undefined);
+    if (!args.flags.json) console.log(chalk.green(`Added ${added.length} tracker${added.length === 1 ? "" : "s"}.`));
+  }
+  if (args.flags.prune) {
+    const removed = trackerStore.prune();
+    if (!args.flags.json) console.log(chalk.green(`Removed ${removed.length} dead tracker${removed.length === 1 ? "" : "s"}.`));
+  }
+  if (args.flags.json) {
+    const health = trackerStore.health();
+    return printJson(trackerStore.list().map((url) => ({ url, status: trackerStatus(health[url]), ...health[url] })));
+  }
+  renderTrackerStatus();
+}
+
+async function cliConfig(args: CliArgs): Promise<void> {
+  if (args.flags.json) return printJson(config);
+
+  console.log(chalk.dim(`Config file: ${configPath}`));
+  for (const setting of SETTINGS) {
+    const value = config[setting.key];
+    const shown = Array.isArray(value) ? value.join(", ") || "none" : formatSettingValue(value);
+    console.log(`  ${chalk.bold(settingFlag(setting.key).padEnd(20))} ${shown}`);
+  }
+}
+
+async function cliWatchlist(args: CliArgs): Promise<void> {
+  await watchlist.load();
+  if (watchlist.loadError) throw new Error(`Your watchlist ${watchlist.loadError}`);
+  const [sub, key] = args.positionals;
+
+  if (sub === "add") {
+    const movie = await requireMovie(key, "movizone watchlist add <id|imdb> [--note text]");
+    await watchlist.add(movie, flagString(args, "note"));
+    if (args.flags.json) return printJson(watchlist.list().find((e) => e.movie.id === movie.id));
+    console.log(chalk.green(`Added "${movie.title}" to your watchlist.`));
+    return;
+  }
+
+  if (sub === "remove") {
+    const entry = watchlist.list().find((e) => String(e.movie.id) === key || e.movie.imdb_code === key);
+    if (!entry) throw new Error(`"${key ?? ""}" is not on your watchlist`);
+    await watchlist.remove(entry.movie.id);
+    if (!args.flags.json) console.log(chalk.dim(`Removed "${entry.movie.title}" from your watchlist.`));
+    return;
+  }
+
+  if (sub) throw new Error("Usage: movizone watchlist [add <id|imdb> | remove <id|imdb>]");
+
+  const entries = watchlist.list();
+  if (args.flags.json) return printJson(entries);
+  if (!entries.length) {
+    console.log(chalk.dim("Your watchlist is empty."));
+    return;
+  }
+  printMovieList(entries.map((e) => e.movie));
+}
+
+async function cliLibrary(args: CliArgs): Promise<void> {
+  await library.load();
+  if (args.flags.scan) {
+    await downloadManager.loadDownloads();
+    const result = await scanLibrary(true);
+    if (!args.flags.json) console.log(chalk.dim(`Scanned: ${result.added} new, ${result.removed} removed, ${result.unmatched} unmatched`));
+  }
+
+  const entries = library.list();
+  if (args.flags.json) return printJson(entries);
+  if (!entries.length) {
+    console.log(chalk.dim("Your library is empty. Run movizone library --scan to index your download folder."));
+    return;
+  }
+  for (const e of entries) {
+    const title = e.movie ? `${chalk.bold.white(e.movie.title)} ${chalk.dim(`(${e.movie.year})`)}` : chalk.yellow(basename(e.path));
+    const subs = e.subtitles.length ? chalk.dim(` subs ${e.subtitles.join(",")}`) : "";
+    console.log(`${title}  ${chalk.cyan(e.quality ?? "--")}  ${formatBytes(e.size)}${subs}`);
+  }
+}
+
+async function cliHistory(args: CliArgs): Promise<void> {
+  await downloadHistory.load();
+  await downloadManager.loadDownloads(); // Records downloads that finished since the last run
+  const entries = downloadHistory.list(args.positionals.join(" "));
+  if (args.flags.json) return printJson({ entries, stats: historyStats(entries) });
+  if (!entries.length) {
+    console.log(chalk.dim("No downloads in the history."));
+    return;
+  }
+
+  for (const e of entries) {
+    const date = new Date(e.finishedAt).toLocaleDateString();
+    console.log(`${chalk.dim(date.padEnd(11))} ${chalk.bold.white(e.title)} ${chalk.cyan(e.quality)}  ${formatBytes(e.bytes)}  ${outcomeLabel(e)}`);
+  }
+  const stats = historyStats(entries);
+  console.log(chalk.dim(`\n${stats.downloads} downloads · ${formatBytes(stats.bytes)} · ${Math.round(stats.successRate * 100)}% succeeded`));
+  for (const m of stats.months.slice(0, 6)) console.log(chalk.dim(`  ${m.month}  ${formatBytes(m.bytes)}`));
+}
+
+const CLI_USAGE = `Usage: movizone [command] [options]
+
+Run without a command to start the interactive explorer.
+
+Commands:
+  search <query>              Fuzzy search the catalog
+  browse                      List movies (--sort, --genre, --page)
+  info <id|imdb>              Show movie details and torrents
+  download <id|imdb>          Start a background download (--quality 720p|1080p|2160p)
+  stream <id|imdb>            Download in order and play in mpv/vlc while it downloads
+  add <magnet|file.torrent>   Download a magnet link or .torrent from anywhere
+                              (--match to accept a catalog match by name, --id <id|imdb> to pick the movie)
+  downloads                   List downloads and their progress
+  pause <#|id>                Pause a download, keeping the partial files
+  resume [#|id]               Resume a paused download (all interrupted ones without an argument)
+  files <#|id>                List a download's files (--select 1,3 to pick which to download)
+  watchlist                   List saved movies (add <id|imdb> [--note], remove <id|imdb>)
+  library                     List movies on disk (--scan to index the download and library folders first)
+  history [query]             Past downloads with monthly totals and success rate
+  mirrors                     Show API mirror health (--check to test them now)
+  trackers                    Show tracker health (--import [url|file] to merge a list, --prune to drop dead ones)
+  config                      Show the effective settings
+
+Options:
+  --json                      Print machine-readable JSON
+  --offline                   Serve browse, search and details from the cache only
+  --force                     Download even if it's a duplicate or won't fit on disk
+  --config <file>             Use another config file
+  --<setting> <value>         Override a setting for this run, e.g. --download-dir /mnt/nas
+                              (or set MOVIZONE_<SETTING>, e.g. MOVIZONE_DOWNLOAD_DIR)
+  -h, --help                  Show this help
+  -v, --version               Show the version`;
+
+const CLI_COMMANDS: Record<string, (args: CliArgs) => Promise<void>> = {
+  search: cliSearch,
+  browse: cliBrowse,
+  info: cliInfo,
+  download: cliDownload,
+  add: cliAdd,
+  stream: cliStream,
+  downloads: cliDownloads,
+  pause: cliPause,
+  resume: cliResume,
+  files: cliFiles,
+  watchlist: cliWatchlist,
+  library: cliLibrary,
+  history: cliHistory,
+  mirrors: cliMirrors,
+  trackers: cliTrackers,
+  config: cliConfig,
+};
+
+async function runCommand(args: CliArgs): Promise<void> {
+  if (args.flags.version) {
+    console.log(version);
+    return;
+  }
+  if (!args.command || args.flags.help) {
+    console.log(CLI_USAGE);
+    return;
+  }
+
+  const handler = CLI_COMMANDS[args.command];
+  if (!handler) throw new Error(`Unknown command "${args.command}". Run movizone --help for usage.`);
+  await handler(args);
+}
+
 // --- Main ---
 
 async function main(): Promise<void> {
-  const updateCheck = checkForUpdate(); // start fetch immediately
+  const updateCheck = config.offline ? Promise.resolve(null) : checkForUpdate(); // start fetch immediately
 
   console.log();
   console.log(renderHeader());
-  console.log(chalk.dim(`  Downloads: ${DOWNLOAD_DIR}`));
+  console.log(chalk.dim(`  Downloads: ${config.downloadDir}`));
+  if (config.offline) {
+    console.log(chalk.yellow("  Offline mode: ") + chalk.dim("showing cached movies only"));
+  }
   console.log(boxen(DISCLAIMER, {
     borderStyle: "round",
     borderColor: "yellow",
@@ -1552,23 +5964,64 @@ async function main(): Promise<void> {
 
   console.log();
 
+  await downloadHistory.load(); // Before loadDownloads, which records what finished while we were away
   await downloadManager.loadDownloads();
+  await watchlist.load();
+  await library.load();
+
+  // With autoResume on, loadDownloads already requeued these
+  const interrupted = downloadManager.getInterrupted();
+  if (interrupted.length) {
+    console.log(chalk.yellow(`  ${interrupted.length} download${interrupted.length === 1 ? " was" : "s were"} interrupted:`));
+    for (const d of interrupted) {
+      console.log(chalk.dim(`    ↯ ${d.movieTitle} (${d.quality}) at ${(d.progress * 100).toFixed(1)}%`));
+    }
+    const { resume } = await inquirer.prompt([{
+      type: "confirm",
+      name: "resume",
+      message: "Resume where they left off?",
+      default: true,
+    }]);
+    if (resume) downloadManager.resumeInterrupted();
+    console.log();
+  }
+
+  // Keep the queue moving while we sit in other menus
+  setInterval(() => downloadManager.refreshOrphaned().catch(() => {}), 5000);
 
   let running = true;
 
   while (running) {
     try {
       const activeCount = downloadManager.getActive().length;
-      const downloadsLabel = activeCount > 0
-        ? `Downloads (${activeCount} active)`
-        : "Downloads";
+      const queuedCount = downloadManager.getQueued().length;
+      const pausedCount = downloadManager.getPaused().length + downloadManager.getInterrupted().length;
+      const seedingCount = downloadManager.getSeeding().length;
+      const downloadCounts = [
+        activeCount > 0 ? `${activeCount} active` : "",
+        queuedCount > 0 ? `${queuedCount} queued` : "",
+        pausedCount > 0 ? `${pausedCount} paused` : "",
+        seedingCount > 0 ? `${seedingCount} seeding` : "",
+      ].filter(Boolean).join(", ");
+      const downloadsLabel = downloadCounts ? `Downloads (${downloadCounts})` : "Downloads";
+      const watchCount = watchlist.list().length;
+      const watchlistLabel = watchCount > 0 ? `Watchlist (${watchCount})` : "Watchlist";
+      const libraryCount = library.list().length;
+      const libraryLabel = libraryCount > 0 ? `Library (${libraryCount})` : "Library";
 
       const choices: { name: string; value: string }[] = [
         { name: "Search movies", value: "search" },
         { name: "Browse movies", value: "browse" },
         { name: "Trending now", value: "trending" },
         { name: "Top rated", value: "top" },
+        { name: "Add magnet / .torrent", value: "add" },
         { name: downloadsLabel, value: "downloads" },
+        { name: watchlistLabel, value: "watchlist" },
+        { name: libraryLabel, value: "library" },
+        { name: "History", value: "history" },
+        { name: "API mirrors", value: "mirrors" },
+        { name: "Trackers", value: "trackers" },
+        { name: "Settings", value: "settings" },
       ];
       if (update?.hasUpdate) {
         choices.push({ name: chalk.yellow(`Update available (v${update.latest})`), value: "update" });
@@ -1597,9 +6050,30 @@ async function main(): Promise<void> {
         case "top":
           await paginatedList((p) => listMovies(p, { sort_by: "rating", order_by: "desc", minimum_rating: 7 }), "Top Rated");
           break;
+        case "add":
+          await addTorrentAction();
+          break;
         case "downloads":
           await viewDownloads();
           break;
+        case "watchlist":
+          await viewWatchlist();
+          break;
+        case "library":
+          await viewLibrary();
+          break;
+        case "history":
+          await viewHistory();
+          break;
+        case "mirrors":
+          await viewMirrorStatus();
+          break;
+        case "trackers":
+          await viewTrackers();
+          break;
+        case "settings":
+          await viewSettings();
+          break;
         case "update":
           await runUpdate();
           break;
@@ -1614,9 +6088,32 @@ async function main(): Promise<void> {
 }
 
 if (import.meta.main) {
-  main().catch((err) => {
-    if (isExitPromptError(err)) exitGracefully();
-    console.error(err);
+  const cli = parseCliArgs(process.argv.slice(2));
+  if (typeof cli.flags.config === "string") {
+    configPath = cli.flags.config;
+    Object.assign(config, loadConfig());
+  }
+  const flagErrors = applySettingOverrides(config, cli.flags, settingFlag);
+  if (flagErrors.length) {
+    for (const message of flagErrors) console.error(chalk.red(`Error: ${message}`));
     process.exit(1);
-  });
+  }
+  for (const message of configErrors) console.error(chalk.yellow(`Warning: ${message}`));
+
+  if (cli.command || cli.flags.help || cli.flags.version) {
+    // Exit explicitly: a started download's stdout pipe would otherwise keep us alive
+    runCommand(cli).then(
+      () => process.exit(0),
+      (err) => {
+        console.error(chalk.red(`Error: ${err.message}`));
+        process.exit(1);
+      },
+    );
+  } else {
+    main().catch((err) => {
+      if (isExitPromptError(err)) exitGracefully();
+      console.error(err);
+      process.exit(1);
+    });
+  }
 }
@@ -0,0 +1,308 @@
+// Messages between the download manager (index.ts) and the download helper
+// (download.mjs). Both import this file, so a message one side sends is a
+// message the other side understands.
+//
+// Helper → manager: one JSON message per line on stdout, starting with "hello".
+// The helper also folds each message into the download's state file with
+// applyMessage, which is how downloads from earlier sessions stay visible.
+// Manager → helper: the control file, re-read by the helper when it changes.
+
+/** Bumped on any change one side can't read from an older other side */
+export const PROTOCOL_VERSION = 3;
+
+// File types both sides pick out of a torrent: the helper to choose what to
+// download and stream, the manager to find the movie and its subtitles
+
+/** Video extensions, with the MIME type the stream server sends */
+export const VIDEO_TYPES = {
+  ".mkv": "video/x-matroska",
+  ".mp4": "video/mp4",
+  ".m4v": "video/mp4",
+  ".avi": "video/x-msvideo",
+  ".mov": "video/quicktime",
+  ".webm": "video/webm",
+};
+
+export const VIDEO_EXTENSIONS = Object.keys(VIDEO_TYPES);
+
+export const SUBTITLE_EXTENSIONS = [".srt", ".sub", ".idx", ".ass", ".ssa", ".vtt"];
+
+/**
+ * State file fields the manager changes while the helper runs. The helper
+ * keeps whatever the file has for these instead of its startup copy.
+ */
+export const MANAGER_FIELDS = [
+  "priority", "streaming", "pickFiles",
+  "organized", "organizeError", "nfoWritten", "nfoError",
+  "subtitles", "subtitleError", "subtitlesRetryAt", "recorded",
+];
+
+/**
+ * @typedef {{ name: string, length: number, selected: boolean }} TorrentFile
+ *   `name` is the path inside the torrent
+ *
+ * @typedef {{ type: "hello", version: number, pid: number }} HelloMessage
+ * @typedef {{ type: "meta", name: string, size: number, files: TorrentFile[] }} MetaMessage
+ *   `size` counts the selected files only
+ * @typedef {{ type: "progress", progress: number, downloaded: number, total: number, speed: number, eta: number | null, peers: number, bufferAhead?: number }} ProgressMessage
+ *   `eta` in ms, null while stalled; `bufferAhead` only while streaming
+ * @typedef {{ type: "stream", url: string | null, file?: string }} StreamMessage
+ *   A null url means the stream server closed
+ * @typedef {{ type: "seeding", path: string }} SeedingMessage
+ * @typedef {{ type: "seed", uploaded: number, uploadSpeed: number, ratio: number, peers: number }} SeedMessage
+ * @typedef {{ type: "done", path: string }} DoneMessage
+ * @typedef {{ type: "error", message: string }} ErrorMessage
+ * @typedef {{ type: "timeout" }} TimeoutMessage
+ * @typedef {{ type: "retry", attempt: number, of: number }} RetryMessage
+ *   No progress for a while; the helper re-announced to trackers and the DHT
+ * @typedef {{ type: "stalled", minutes: number }} StalledMessage
+ *   Still no progress after the last retry; `minutes` since the download last moved
+ * @typedef {{ url: string, ok: boolean, peers?: number, error?: string, timedOut?: boolean }} TrackerResult
+ *   `peers` is what the tracker knew of (seeders + leechers); `timedOut` when it never answered
+ * @typedef {{ type: "trackers", at: number, results: TrackerResult[] }} TrackersMessage
+ *   How each tracker in the magnet answered its first announce; sent once per run. A report sent
+ *   before the full window (the helper is exiting early) leaves out trackers that haven't answered
+ * @typedef {{ type: "warning", message: string }} WarningMessage
+ *   Something the user should see that doesn't stop the download
+ * @typedef {{ type: "stopped", reason: "pause" | "shutdown" }} StoppedMessage
+ *   The helper is exiting because the control file asked it to
+ *
+ * @typedef {HelloMessage | MetaMessage | ProgressMessage | StreamMessage | SeedingMessage | SeedMessage
+ *   | DoneMessage | ErrorMessage | TimeoutMessage | RetryMessage | StalledMessage | TrackersMessage
+ *   | WarningMessage | StoppedMessage} HelperMessage
+ *
+ * @typedef {{ action: "pause" | "shutdown", at: number }} HelperCommand
+ *   One-shot; `at` (ms since epoch) lets a restarted helper ignore commands meant for its predecessor
+ *
+ * @typedef {object} HelperControl
+ * @property {number} version
+ * @property {number} downloadLimit Bytes/s, -1 for unlimited
+ * @property {number} uploadLimit Bytes/s, -1 for unlimited
+ * @property {boolean} [stream] Download in playback order and serve the video over HTTP
+ * @property {number[]} [files] Indices of the files to download
+ * @property {number} [speedLimit] The user's per-download cap in KB/s, echoed into the state file
+ * @property {HelperCommand} [command]
+ *
+ * @typedef {object} HelperState The state file fields messages update
+ * @property {string} status
+ * @property {number} progress
+ * @property {number} downloaded
+ * @property {number} total
+ * @property {number} speed
+ * @property {number} eta
+ * @property {number} peers
+ * @property {string} [filePath]
+ * @property {string} [error]
+ * @property {TorrentFile[]} [files]
+ * @property {number} [bufferAhead]
+ * @property {string} [streamUrl]
+ * @property {string} [streamFile]
+ * @property {number} [uploaded]
+ * @property {number} [uploadSpeed]
+ * @property {number} [ratio]
+ * @property {number} [seedingSince]
+ * @property {number} [finishedAt]
+ * @property {number} [retries] Stall retries across all runs
+ * @property {{ at: number, results: TrackerResult[] }} [trackerReport] The latest run's tracker results
+ * @property {number} [protocol] Version the helper announced
+ * @property {string} [warning]
+ */
+
+// Field types per message: "number", "string", "boolean", "array", "object" or "null",
+// joined with "|"; a trailing "?" marks the field optional
+const MESSAGE_FIELDS = {
+  hello: { version: "number", pid: "number" },
+  meta: { name: "string", size: "number", files: "array" },
+  progress: {
+    progress: "number", downloaded: "number", total: "number", speed: "number",
+    eta: "number|null", peers: "number", bufferAhead: "number?",
+  },
+  stream: { url: "string|null", file: "string?" },
+  seeding: { path: "string" },
+  seed: { uploaded: "number", uploadSpeed: "number", ratio: "number", peers: "number" },
+  done: { path: "string" },
+  error: { message: "string" },
+  timeout: {},
+  retry: { attempt: "number", of: "number" },
+  stalled: { minutes: "number" },
+  trackers: { at: "number", results: "array" },
+  warning: { message: "string" },
+  stopped: { reason: "string" },
+};
+
+const CONTROL_FIELDS = {
+  version: "number", downloadLimit: "number", uploadLimit: "number",
+  stream: "boolean?", files: "array?", speedLimit: "number?", command: "object?",
+};
+
+const COMMANDS = ["pause", "shutdown"];
+
+/** The first field that doesn't match `fields`, described; undefined when all do */
+function checkFields(obj, fields) {
+  for (const [key, spec] of Object.entries(fields)) {
+    const value = obj[key];
+    if (value === undefined && spec.endsWith("?")) continue;
+    const actual = value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+    const allowed = spec.replace(/\?$/, "").split("|");
+    if (!allowed.includes(actual)) return `"${key}" should be ${allowed.join(" or ")}, got ${actual}`;
+  }
+  return undefined;
+}
+
+/** @returns {HelperMessage} */
+function validateMessage(msg) {
+  if (!msg || typeof msg !== "object" || typeof msg.type !== "string") {
+    throw new Error("Message has no type");
+  }
+  const fields = MESSAGE_FIELDS[msg.type];
+  if (!fields) throw new Error(`Unknown message type "${msg.type}"`);
+  const problem = checkFields(msg, fields);
+  if (problem) throw new Error(`Bad "${msg.type}" message: ${problem}`);
+  return msg;
+}
+
+/**
+ * Parse one line of helper output
+ * @param {string} line
+ * @returns {HelperMessage}
+ */
+export function parseMessage(line) {
+  let msg;
+  try {
+    msg = JSON.parse(line);
+  } catch {
+    throw new Error(`Not a JSON message: ${line.slice(0, 80)}`);
+  }
+  return validateMessage(msg);
+}
+
+/**
+ * One line of helper output; throws on a message the manager would reject
+ * @param {HelperMessage} msg
+ * @returns {string}
+ */
+export function encodeMessage(msg) {
+  return JSON.stringify(validateMessage(msg)) + "\n";
+}
+
+/** @returns {HelperControl} */
+function validateControl(control) {
+  if (!control || typeof control !== "object") throw new Error("Control is not an object");
+  if (control.version !== PROTOCOL_VERSION) {
+    throw new Error(`Control file is protocol v${control.version}, this helper speaks v${PROTOCOL_VERSION}`);
+  }
+  const problem = checkFields(control, CONTROL_FIELDS);
+  if (problem) throw new Error(`Bad control file: ${problem}`);
+  const { command } = control;
+  if (command && (!COMMANDS.includes(command.action) || typeof command.at !== "number")) {
+    throw new Error(`Bad control command: ${JSON.stringify(command)}`);
+  }
+  return control;
+}
+
+/**
+ * @param {string} text Control file contents
+ * @returns {HelperControl}
+ */
+export function parseControl(text) {
+  let control;
+  try {
+    control = JSON.parse(text);
+  } catch {
+    throw new Error("Control file is not JSON");
+  }
+  return validateControl(control);
+}
+
+/**
+ * @param {HelperControl} control
+ * @returns {string}
+ */
+export function encodeControl(control) {
+  return JSON.stringify(validateControl(control)) + "\n";
+}
+
+/**
+ * Fold a helper message into download state; the helper and the manager both
+ * use this, so the state file and the manager's view can't disagree
+ * @template {HelperState} S
+ * @param {S} state
+ * @param {HelperMessage} msg
+ * @param {number} [now]
+ * @returns {S}
+ */
+export function applyMessage(state, msg, now = Date.now()) {
+  switch (msg.type) {
+    case "hello":
+      state.protocol = msg.version;
+      break;
+    case "meta":
+      state.total = msg.size;
+      state.files = msg.files;
+      if (state.status === "connecting") state.status = "downloading";
+      break;
+    case "progress":
+      state.status = "downloading";
+      state.progress = msg.progress;
+      state.downloaded = msg.downloaded;
+      state.total = msg.total;
+      state.speed = msg.speed;
+      state.eta = msg.eta ?? 0;
+      state.peers = msg.peers;
+      state.bufferAhead = msg.bufferAhead;
+      break;
+    case "stream":
+      state.streamUrl = msg.url || undefined;
+      state.streamFile = msg.file;
+      break;
+    case "seeding":
+      state.status = "seeding";
+      state.progress = 1;
+      state.filePath = msg.path;
+      state.seedingSince = now;
+      state.finishedAt ??= now;
+      break;
+    case "seed":
+      state.uploaded = msg.uploaded;
+      state.uploadSpeed = msg.uploadSpeed;
+      state.ratio = msg.ratio;
+      state.peers = msg.peers;
+      break;
+    case "done":
+      state.status = "done";
+      state.progress = 1;
+      state.filePath = msg.path;
+      state.uploadSpeed = 0;
+      state.finishedAt ??= now;
+      break;
+    case "error":
+      state.status = "error";
+      state.error = msg.message;
+      state.finishedAt ??= now;
+      break;
+    case "timeout":
+      state.status = "timeout";
+      state.error = "Could not connect to peers";
+      state.finishedAt ??= now;
+      break;
+    case "retry":
+      state.retries = (state.retries ?? 0) + 1;
+      break;
+    case "stalled":
+      state.status = "stalled";
+      state.error = `No progress for ${msg.minutes} min`;
+      state.speed = 0;
+      state.eta = 0;
+      state.finishedAt ??= now;
+      break;
+    case "trackers":
+      state.trackerReport = { at: msg.at, results: msg.results };
+      break;
+    case "warning":
+      state.warning = msg.message;
+      break;
+    case "stopped":
+      break; // The manager records what the download becomes
+  }
+  return state;
+}